@@ -0,0 +1,92 @@
+import type { WebContents } from 'electron'
+
+// Electron only has a per-webContents mute switch. Volume is applied to the
+// page's <audio>/<video> elements from an isolated world, scaling whatever
+// volume the site itself picked. Web Audio graphs are not affected.
+//
+// Spatial pan needs Web Audio: an element is routed through a StereoPanner
+// only when panned, when its media is same-origin (otherwise Chromium would
+// output silence) and when the page already allows audio to start.
+
+const AUDIO_WORLD_ID = 1001
+
+export type TabAudio = {
+  muted: boolean
+  volume: number
+  // Spatial audio, set by the renderer from canvas position; never persisted
+  gain: number
+  pan: number
+}
+
+export const DEFAULT_VOLUME = 1
+
+export function clampVolume(volume: number): number {
+  if (!Number.isFinite(volume)) return DEFAULT_VOLUME
+  return Math.min(1, Math.max(0, volume))
+}
+
+export function clampPan(pan: number): number {
+  if (!Number.isFinite(pan)) return 0
+  return Math.min(1, Math.max(-1, pan))
+}
+
+function audioScript(volume: number, pan: number): string {
+  return `(() => {
+  const s = (window.__paperAudio ??= { volume: 1, pan: 0, base: new WeakMap(), panners: new WeakMap(), ctx: null, installed: false });
+  s.volume = ${volume};
+  s.pan = ${pan};
+  const canRoute = (el) => {
+    if (el.crossOrigin != null) return true;
+    try {
+      const u = new URL(el.currentSrc || el.src, location.href);
+      return u.protocol === 'blob:' || u.protocol === 'data:' || u.origin === location.origin;
+    } catch { return false; }
+  };
+  const route = async (el) => {
+    const existing = s.panners.get(el);
+    if (existing) { existing.pan.value = s.pan; return; }
+    if (Math.abs(s.pan) < 0.01 || !canRoute(el)) return;
+    try {
+      s.ctx ??= new AudioContext();
+      if (s.ctx.state !== 'running') await s.ctx.resume().catch(() => {});
+      if (s.ctx.state !== 'running' || s.panners.has(el)) return;
+      const panner = new StereoPannerNode(s.ctx, { pan: s.pan });
+      s.ctx.createMediaElementSource(el).connect(panner).connect(s.ctx.destination);
+      s.panners.set(el, panner);
+    } catch {}
+  };
+  const apply = (el) => {
+    if (!s.base.has(el)) s.base.set(el, el.volume);
+    try { el.volume = Math.min(1, s.base.get(el) * s.volume); } catch {}
+    void route(el);
+  };
+  document.querySelectorAll('audio, video').forEach(apply);
+  if (s.installed) return;
+  s.installed = true;
+  document.addEventListener('play', (e) => { if (e.target instanceof HTMLMediaElement) apply(e.target); }, true);
+  document.addEventListener('volumechange', (e) => {
+    const el = e.target;
+    if (!(el instanceof HTMLMediaElement) || !s.base.has(el)) return;
+    // Our own writes land on base * volume; anything else is the site's slider
+    if (Math.abs(el.volume - Math.min(1, s.base.get(el) * s.volume)) < 0.001) return;
+    s.base.set(el, el.volume);
+    apply(el);
+  }, true);
+})()`
+}
+
+/** Pushes the tab's volume/gain/pan into the current document (call again after each load). */
+export function applyMediaAudio(wc: WebContents, audio: TabAudio, force = false): void {
+  if (wc.isDestroyed()) return
+  const volume = clampVolume(audio.volume * audio.gain)
+  const pan = clampPan(audio.pan)
+  // A fresh document at full volume and centred needs no hooks
+  if (!force && volume === DEFAULT_VOLUME && pan === 0) return
+  wc.executeJavaScriptInIsolatedWorld(AUDIO_WORLD_ID, [{ code: audioScript(volume, pan) }]).catch(() => { /* page gone */ })
+}
+
+export function applyTabAudio(wc: WebContents, audio: TabAudio, force = false): void {
+  if (wc.isDestroyed()) return
+  try { wc.setAudioMuted(audio.muted) } catch { /* ignore */ }
+  applyMediaAudio(wc, audio, force)
+}
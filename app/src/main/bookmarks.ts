@@ -0,0 +1,324 @@
+import { app, dialog, ipcMain } from 'electron'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type {
+  Bookmark,
+  BookmarkFolder,
+  BookmarkPatch,
+  BookmarkSearch,
+  BookmarksData,
+  OverlayNotice,
+} from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Bookmarks live in a folder tree under a fixed root; tags are free-form
+// lower-case strings. Import/export use the Netscape HTML format every
+// browser understands.
+
+const BOOKMARKS_FILE = userDataFile('bookmarks.json')
+export const ROOT_FOLDER_ID = 'root'
+
+const stored = readJsonFile<Partial<BookmarksData>>(BOOKMARKS_FILE, {})
+const folders: BookmarkFolder[] = Array.isArray(stored.folders) ? stored.folders : []
+const bookmarks: Bookmark[] = Array.isArray(stored.bookmarks) ? stored.bookmarks : []
+if (!folders.some((f) => f.id === ROOT_FOLDER_ID)) {
+  folders.unshift({ id: ROOT_FOLDER_ID, name: 'Bookmarks', parentId: null, createdAt: Date.now() })
+}
+
+const flushBookmarks = createDebouncedWriter(BOOKMARKS_FILE, (): BookmarksData => ({ folders, bookmarks }))
+
+let notify: ((n: OverlayNotice) => void) | null = null
+
+export function getBookmarks(): BookmarksData {
+  return structuredClone({ folders, bookmarks })
+}
+
+function changed(): void {
+  flushBookmarks()
+  notify?.({ kind: 'bookmarks-changed', data: getBookmarks() })
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+  if (!Array.isArray(tags)) return []
+  return [...new Set(tags.map((t) => String(t).trim().toLowerCase()).filter(Boolean))]
+}
+
+function folderExists(id: string | null | undefined): id is string {
+  return !!id && folders.some((f) => f.id === id)
+}
+
+/** Folder ids of `id` and everything below it. */
+function subtreeIds(id: string): Set<string> {
+  const ids = new Set([id])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const f of folders) {
+      if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) { ids.add(f.id); grew = true }
+    }
+  }
+  return ids
+}
+
+export function addBookmark(input: { url: string; title?: string; folderId?: string | null; tags?: string[] }): Bookmark {
+  const now = Date.now()
+  const bookmark: Bookmark = {
+    id: randomUUID(),
+    url: input.url,
+    title: input.title?.trim() || input.url,
+    folderId: folderExists(input.folderId) ? input.folderId : ROOT_FOLDER_ID,
+    tags: normalizeTags(input.tags),
+    createdAt: now,
+    updatedAt: now,
+  }
+  bookmarks.push(bookmark)
+  changed()
+  return bookmark
+}
+
+export function updateBookmark(id: string, patch: BookmarkPatch): Bookmark | null {
+  const bookmark = bookmarks.find((b) => b.id === id)
+  if (!bookmark) return null
+  if (patch.url) bookmark.url = patch.url
+  if (patch.title !== undefined) bookmark.title = patch.title.trim() || bookmark.url
+  if (patch.folderId !== undefined && folderExists(patch.folderId)) bookmark.folderId = patch.folderId
+  if (patch.tags) bookmark.tags = normalizeTags(patch.tags)
+  bookmark.updatedAt = Date.now()
+  changed()
+  return { ...bookmark }
+}
+
+export function removeBookmarks(ids: string[]): void {
+  const drop = new Set(ids)
+  const before = bookmarks.length
+  for (let i = bookmarks.length - 1; i >= 0; i--) {
+    if (drop.has(bookmarks[i].id)) bookmarks.splice(i, 1)
+  }
+  if (bookmarks.length !== before) changed()
+}
+
+export function createFolder(name: string, parentId?: string | null): BookmarkFolder {
+  const folder: BookmarkFolder = {
+    id: randomUUID(),
+    name: name.trim() || 'New folder',
+    parentId: folderExists(parentId) ? parentId : ROOT_FOLDER_ID,
+    createdAt: Date.now(),
+  }
+  folders.push(folder)
+  changed()
+  return folder
+}
+
+export function updateFolder(id: string, patch: { name?: string; parentId?: string }): BookmarkFolder | null {
+  const folder = folders.find((f) => f.id === id)
+  if (!folder || id === ROOT_FOLDER_ID) return null
+  if (patch.name?.trim()) folder.name = patch.name.trim()
+  // A folder cannot move into itself or its own subtree
+  if (patch.parentId && folderExists(patch.parentId) && !subtreeIds(id).has(patch.parentId)) {
+    folder.parentId = patch.parentId
+  }
+  changed()
+  return { ...folder }
+}
+
+/** Removes a folder with everything inside it. */
+export function removeFolder(id: string): void {
+  if (id === ROOT_FOLDER_ID || !folderExists(id)) return
+  const ids = subtreeIds(id)
+  for (let i = folders.length - 1; i >= 0; i--) if (ids.has(folders[i].id)) folders.splice(i, 1)
+  for (let i = bookmarks.length - 1; i >= 0; i--) if (ids.has(bookmarks[i].folderId)) bookmarks.splice(i, 1)
+  changed()
+}
+
+export function searchBookmarks(query: BookmarkSearch): Bookmark[] {
+  const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+  const tag = query.tag?.trim().toLowerCase()
+  const inFolders = query.folderId ? subtreeIds(query.folderId) : null
+  return bookmarks
+    .filter((b) => {
+      if (inFolders && !inFolders.has(b.folderId)) return false
+      if (tag && !b.tags.includes(tag)) return false
+      if (words.length === 0) return true
+      const haystack = `${b.title}\n${b.url}\n${b.tags.join(' ')}`.toLowerCase()
+      return words.every((w) => haystack.includes(w))
+    })
+    .map((b) => ({ ...b, tags: [...b.tags] }))
+}
+
+// -------------------- Netscape bookmark HTML --------------------------------
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function decodeHtml(s: string): string {
+  return s
+    .replace(/&#(\d+);/g, (_m, n: string) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, n: string) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  const m = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i').exec(attrs)
+  return m ? decodeHtml(m[1]) : undefined
+}
+
+function toEpochMs(seconds: string | undefined): number {
+  const n = Number(seconds)
+  return Number.isFinite(n) && n > 0 ? n * 1000 : Date.now()
+}
+
+export function exportNetscapeHtml(): string {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+  ]
+  const writeFolder = (folderId: string, depth: number): void => {
+    const pad = '    '.repeat(depth)
+    lines.push(`${pad}<DL><p>`)
+    for (const f of folders.filter((x) => x.parentId === folderId)) {
+      lines.push(`${pad}    <DT><H3 ADD_DATE="${Math.floor(f.createdAt / 1000)}">${escapeHtml(f.name)}</H3>`)
+      writeFolder(f.id, depth + 1)
+    }
+    for (const b of bookmarks.filter((x) => x.folderId === folderId)) {
+      const tags = b.tags.length ? ` TAGS="${escapeHtml(b.tags.join(','))}"` : ''
+      lines.push(`${pad}    <DT><A HREF="${escapeHtml(b.url)}" ADD_DATE="${Math.floor(b.createdAt / 1000)}" LAST_MODIFIED="${Math.floor(b.updatedAt / 1000)}"${tags}>${escapeHtml(b.title)}</A>`)
+    }
+    lines.push(`${pad}</DL><p>`)
+  }
+  writeFolder(ROOT_FOLDER_ID, 0)
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Imports a Netscape bookmark file into a new folder under the root. The
+ * format is loose HTML, so this walks the DT/H3/A/DL tags instead of parsing
+ * a document.
+ */
+export function importNetscapeHtml(html: string, folderName: string): { folder: BookmarkFolder; count: number } {
+  const now = Date.now()
+  const target: BookmarkFolder = { id: randomUUID(), name: folderName, parentId: ROOT_FOLDER_ID, createdAt: now }
+  const newFolders: BookmarkFolder[] = [target]
+  const newBookmarks: Bookmark[] = []
+
+  const stack: string[] = []
+  let pendingFolder: string | null = null
+  const current = (): string => stack[stack.length - 1] ?? target.id
+
+  const tokens = /<DT>\s*<H3([^>]*)>([\s\S]*?)<\/H3>|<DT>\s*<A([^>]*)>([\s\S]*?)<\/A>|<DL\b[^>]*>|<\/DL>/gi
+  for (const m of html.matchAll(tokens)) {
+    if (m[2] !== undefined) {
+      const folder: BookmarkFolder = {
+        id: randomUUID(),
+        name: decodeHtml(m[2].trim()) || 'Folder',
+        parentId: current(),
+        createdAt: toEpochMs(attr(m[1], 'ADD_DATE')),
+      }
+      newFolders.push(folder)
+      pendingFolder = folder.id
+    } else if (m[4] !== undefined) {
+      const url = attr(m[3], 'HREF')
+      if (!url || /^(javascript|place):/i.test(url)) continue
+      const createdAt = toEpochMs(attr(m[3], 'ADD_DATE'))
+      newBookmarks.push({
+        id: randomUUID(),
+        url,
+        title: decodeHtml(m[4].replace(/<[^>]*>/g, '').trim()) || url,
+        folderId: current(),
+        tags: normalizeTags(attr(m[3], 'TAGS')?.split(',')),
+        createdAt,
+        updatedAt: attr(m[3], 'LAST_MODIFIED') ? toEpochMs(attr(m[3], 'LAST_MODIFIED')) : createdAt,
+      })
+    } else if (m[0].startsWith('</')) {
+      stack.pop()
+    } else {
+      // The outermost <DL> belongs to the file itself, not to a folder
+      stack.push(pendingFolder ?? current())
+      pendingFolder = null
+    }
+  }
+
+  folders.push(...newFolders)
+  bookmarks.push(...newBookmarks)
+  changed()
+  return { folder: { ...target }, count: newBookmarks.length }
+}
+
+export function registerBookmarkIPC(sendNotice: (n: OverlayNotice) => void): void {
+  notify = sendNotice
+
+  ipcMain.handle('overlay:list-bookmarks', () => ({ ok: true as const, data: getBookmarks() }))
+
+  ipcMain.handle('overlay:search-bookmarks', (_e, query?: BookmarkSearch) => ({ ok: true as const, bookmarks: searchBookmarks(query ?? {}) }))
+
+  ipcMain.handle('overlay:add-bookmark', (_e, payload: { url: string; title?: string; folderId?: string | null; tags?: string[] }) => {
+    if (!payload?.url) return { ok: false as const, error: 'Missing URL' }
+    return { ok: true as const, bookmark: addBookmark(payload) }
+  })
+
+  ipcMain.handle('overlay:update-bookmark', (_e, payload: { id: string; patch: BookmarkPatch }) => {
+    const bookmark = updateBookmark(payload?.id, payload?.patch ?? {})
+    return bookmark ? { ok: true as const, bookmark } : { ok: false as const, error: 'No such bookmark' }
+  })
+
+  ipcMain.handle('overlay:remove-bookmarks', (_e, payload: { ids: string[] }) => {
+    removeBookmarks(Array.isArray(payload?.ids) ? payload.ids : [])
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:create-bookmark-folder', (_e, payload: { name: string; parentId?: string | null }) => {
+    return { ok: true as const, folder: createFolder(payload?.name ?? '', payload?.parentId) }
+  })
+
+  ipcMain.handle('overlay:update-bookmark-folder', (_e, payload: { id: string; name?: string; parentId?: string }) => {
+    const { id, ...patch } = payload ?? { id: '' }
+    const folder = updateFolder(id, patch)
+    return folder ? { ok: true as const, folder } : { ok: false as const, error: 'No such folder' }
+  })
+
+  ipcMain.handle('overlay:remove-bookmark-folder', (_e, payload: { id: string }) => {
+    removeFolder(payload?.id)
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:import-bookmarks', async () => {
+    const res = await dialog.showOpenDialog({
+      title: 'Import bookmarks',
+      properties: ['openFile'],
+      filters: [{ name: 'Bookmark files', extensions: ['html', 'htm'] }],
+    })
+    if (res.canceled || !res.filePaths[0]) return { ok: false as const, error: 'cancelled' }
+    try {
+      const html = await fs.promises.readFile(res.filePaths[0], 'utf8')
+      const { folder, count } = importNetscapeHtml(html, `Imported ${new Date().toLocaleDateString()}`)
+      return { ok: true as const, folder, count }
+    } catch (err) {
+      return { ok: false as const, error: err instanceof Error ? err.message : 'Import failed' }
+    }
+  })
+
+  ipcMain.handle('overlay:export-bookmarks', async () => {
+    const res = await dialog.showSaveDialog({
+      title: 'Export bookmarks',
+      defaultPath: path.join(app.getPath('documents'), 'bookmarks.html'),
+      filters: [{ name: 'Bookmark files', extensions: ['html'] }],
+    })
+    if (res.canceled || !res.filePath) return { ok: false as const, error: 'cancelled' }
+    try {
+      await fs.promises.writeFile(res.filePath, exportNetscapeHtml())
+      return { ok: true as const, filePath: res.filePath }
+    } catch (err) {
+      return { ok: false as const, error: err instanceof Error ? err.message : 'Export failed' }
+    }
+  })
+}
@@ -0,0 +1,99 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { rotateBackups, userDataFile, writeJsonFileAtomic } from './jsonStore'
+
+// browser-state.json holds the persisted state of every tab. It is replaced
+// atomically, the last few good copies are kept as browser-state.json.1…3, and
+// it carries a version so older layouts are migrated when loaded.
+//
+//   v1  the bare tab map, before the file was versioned
+//   v2  { version, tabs }; a single-file poster becomes one poster level
+
+export const BROWSER_STATE_VERSION = 2
+const BACKUP_COUNT = 3
+// A burst of writes rotates at most once per interval, so it can't push every good copy out
+const BACKUP_INTERVAL_MS = 10 * 60_000
+
+type TabRecord = Record<string, unknown>
+type StateFile = { version: number; tabs: Record<string, TabRecord> }
+
+// Keyed by the version each step upgrades from
+const MIGRATIONS: Record<number, (file: StateFile) => StateFile> = {
+  1: (file) => {
+    const tabs: Record<string, TabRecord> = {}
+    for (const [tabId, tab] of Object.entries(file.tabs)) {
+      // Its size is unknown, so it is picked only when no level is wide enough
+      const legacyThumb = typeof tab.thumbPath === 'string' && !tab.thumbLevels
+      tabs[tabId] = legacyThumb ? { ...tab, thumbLevels: [{ width: 0, height: 0, path: tab.thumbPath }] } : tab
+    }
+    return { version: 2, tabs }
+  },
+}
+
+const stateFile = (): string => userDataFile('browser-state.json')
+
+// Set when the main file couldn't be read, so the first write doesn't rotate it into the backups
+let skipNextBackup = false
+let lastBackupAt = 0
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseStateFile(raw: unknown): StateFile {
+  if (!isRecord(raw)) throw new Error('Not an object')
+  if (typeof raw.version !== 'number') return { version: 1, tabs: raw as Record<string, TabRecord> }
+  if (!Number.isInteger(raw.version) || raw.version < 1 || !isRecord(raw.tabs)) throw new Error(`Malformed v${raw.version} state`)
+  return { version: raw.version, tabs: raw.tabs as Record<string, TabRecord> }
+}
+
+function migrate(file: StateFile, source: string): StateFile {
+  if (file.version > BROWSER_STATE_VERSION) {
+    // Written by a newer build: keep that file aside and read what we understand
+    const keep = `${source}.v${file.version}`
+    try { fs.copyFileSync(source, keep) } catch { /* best effort */ }
+    console.warn(`[browser-state] Version ${file.version} is newer than ${BROWSER_STATE_VERSION}; kept a copy as ${path.basename(keep)}`)
+    return { version: BROWSER_STATE_VERSION, tabs: file.tabs }
+  }
+  let current = file
+  while (current.version < BROWSER_STATE_VERSION) {
+    const step = MIGRATIONS[current.version]
+    if (!step) throw new Error(`No migration from v${current.version}`)
+    current = step(current)
+  }
+  return current
+}
+
+/** Tab map from browser-state.json, or from the newest readable backup; empty when none can be read. */
+export function loadBrowserState(): Record<string, unknown> {
+  const file = stateFile()
+  const candidates = [file, ...Array.from({ length: BACKUP_COUNT }, (_, i) => `${file}.${i + 1}`)]
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate)) continue
+    try {
+      const { tabs } = migrate(parseStateFile(JSON.parse(fs.readFileSync(candidate, 'utf8'))), candidate)
+      if (candidate !== file) console.warn(`[browser-state] Restored from ${path.basename(candidate)}`)
+      return tabs
+    } catch (e) {
+      console.error(`[browser-state] Failed to read ${path.basename(candidate)}:`, e)
+      if (candidate === file) skipNextBackup = true
+    }
+  }
+  return {}
+}
+
+/** Replaces browser-state.json with `tabs` at the current version, rotating backups first when due. */
+export function writeBrowserState(tabs: Record<string, object>): void {
+  const file = stateFile()
+  const now = Date.now()
+  if (now - lastBackupAt >= BACKUP_INTERVAL_MS) {
+    try {
+      if (!skipNextBackup) rotateBackups(file, BACKUP_COUNT)
+    } catch (e) {
+      console.error('[browser-state] Failed to rotate backups:', e)
+    }
+    skipNextBackup = false
+    lastBackupAt = now
+  }
+  writeJsonFileAtomic(file, { version: BROWSER_STATE_VERSION, tabs })
+}
@@ -3,7 +3,8 @@
  * 
  * Add this to your Electron main process.
  * Listens for cookie sync messages from the Chrome extension
- * via the native messaging host and imports them into persist:overlay
+ * via the native messaging host and imports them into persist:overlay,
+ * or into a named profile's partition when the message carries `profile`
  * 
  * Usage in your main index.ts:
  *   import { startCookieServer, stopCookieServer } from './canvas-cookie-server'
@@ -13,16 +14,14 @@
 
 import http from 'http'
 import { session } from 'electron'
+import { partitionForProfile, resolveProfileId } from './profiles'
 
 const PORT = 49821
 const SECRET = 'canvas-browser-local-ipc'
-const OVERLAY_PARTITION = 'persist:overlay'
 
 let server: http.Server | null = null
 
 export function startCookieServer(): void {
-  const overlaySession = session.fromPartition(OVERLAY_PARTITION)
-
   server = http.createServer((req, res) => {
     // Only accept POST to /sync-cookies
     if (req.method !== 'POST' || req.url !== '/sync-cookies') {
@@ -45,6 +44,7 @@ export function startCookieServer(): void {
         const message = JSON.parse(body) as {
           type: string
           domain: string
+          profile?: string
           cookies: Array<{
             name: string
             value: string
@@ -64,8 +64,16 @@ export function startCookieServer(): void {
           return
         }
 
+        // Profile id or name; omitted means the default profile
+        const profileId = resolveProfileId(message.profile)
+        if (!profileId) {
+          res.writeHead(400, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ ok: false, error: `Unknown profile: ${message.profile}` }))
+          return
+        }
+        const overlaySession = session.fromPartition(partitionForProfile(profileId))
 
-        // Import each cookie into persist:overlay
+        // Import each cookie into the profile's partition
         const results = await Promise.allSettled(
           message.cookies.map(cookie => {
             const url = `${cookie.secure ? 'https' : 'http'}://${
@@ -97,7 +105,7 @@ export function startCookieServer(): void {
         await overlaySession.cookies.flushStore()
 
         res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ ok: true, imported: succeeded, failed }))
+        res.end(JSON.stringify({ ok: true, profile: profileId, imported: succeeded, failed }))
       } catch (e) {
         console.error('[cookie-server] Error:', e)
         res.writeHead(500)
@@ -0,0 +1,549 @@
+import { ipcMain, shell } from 'electron'
+import type { Session, WebContents } from 'electron'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { ContentBlockingStatus, FilterListInfo, OverlayNotice, ShieldState } from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Ad/tracker blocking from EasyList-style filter files dropped into
+// userData/filter-lists. Network rules are matched in onBeforeRequest on every
+// overlay session; element hiding (`##`) is injected as user CSS on dom-ready.
+// Scriptlets, procedural cosmetics and redirect/csp/removeparam rules are
+// skipped rather than half-applied.
+
+const FILTER_DIR = userDataFile('filter-lists')
+const STATE_FILE = userDataFile('content-blocking.json')
+
+type BlockingState = { enabled: boolean; allowlist: string[] }
+
+const stored = readJsonFile<Partial<BlockingState>>(STATE_FILE, {})
+const blockingState: BlockingState = {
+  enabled: stored.enabled ?? true,
+  allowlist: Array.isArray(stored.allowlist) ? stored.allowlist : [],
+}
+const flushState = createDebouncedWriter(STATE_FILE, () => blockingState)
+
+// -------------------- Filter parsing -----------------------------------------
+
+type RequestType =
+  | 'script' | 'image' | 'stylesheet' | 'xmlhttprequest' | 'subdocument'
+  | 'media' | 'font' | 'websocket' | 'ping' | 'object' | 'other'
+
+const REQUEST_TYPES = new Set<string>([
+  'script', 'image', 'stylesheet', 'xmlhttprequest', 'subdocument',
+  'media', 'font', 'websocket', 'ping', 'object', 'other',
+])
+
+// Electron's resourceType → filter option name. mainFrame is never blocked.
+const ELECTRON_TYPES: Record<string, RequestType> = {
+  script: 'script',
+  image: 'image',
+  stylesheet: 'stylesheet',
+  xhr: 'xmlhttprequest',
+  subFrame: 'subdocument',
+  media: 'media',
+  font: 'font',
+  webSocket: 'websocket',
+  ping: 'ping',
+  cspReport: 'other',
+  object: 'object',
+  other: 'other',
+}
+
+const OPTION_ALIASES: Record<string, string> = {
+  xhr: 'xmlhttprequest',
+  css: 'stylesheet',
+  frame: 'subdocument',
+  '3p': 'third-party',
+  '1p': 'first-party',
+  from: 'domain',
+}
+
+// Options we understand but that do not change matching here
+const IGNORED_OPTIONS = new Set(['important', 'all', 'match-case'])
+
+type NetworkRule = {
+  regex: RegExp
+  types: Set<RequestType> | null
+  excludedTypes: Set<RequestType> | null
+  thirdParty: boolean | null
+  includeDomains: string[] | null
+  excludeDomains: string[] | null
+}
+
+type CosmeticRule = {
+  selector: string
+  exception: boolean
+  includeDomains: string[]
+  excludeDomains: string[]
+}
+
+// Procedural / extended selectors that plain CSS cannot express
+const EXTENDED_SELECTOR = /:(?:-abp-|has-text|xpath|upward|remove|style|matches-|min-text-length|watch-attr|others|if\(|if-not|nth-ancestor|contains)/
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+?${}()|[\]\\/]/g, '\\$&')
+}
+
+function patternToRegExp(pattern: string, matchCase: boolean): RegExp {
+  let p = pattern
+  let prefix = ''
+  let suffix = ''
+  if (p.startsWith('||')) {
+    prefix = '^[a-z][a-z0-9+.-]*:\\/\\/(?:[^\\/?#]*\\.)?'
+    p = p.slice(2)
+  } else if (p.startsWith('|')) {
+    prefix = '^'
+    p = p.slice(1)
+  }
+  if (p.endsWith('|')) {
+    suffix = '$'
+    p = p.slice(0, -1)
+  }
+  let body = ''
+  for (const ch of p) {
+    if (ch === '*') body += '.*'
+    else if (ch === '^') body += '(?:[^\\w\\-.%]|$)'
+    else body += escapeRegExp(ch)
+  }
+  return new RegExp(prefix + body + suffix, matchCase ? '' : 'i')
+}
+
+/**
+ * Longest literal run that must appear as a whole token in any matching URL;
+ * rules are bucketed by it so a request only tests a handful of regexes.
+ */
+function ruleToken(pattern: string): string | null {
+  const p = pattern.toLowerCase()
+  const anchoredStart = p.startsWith('|')
+  const anchoredEnd = p.endsWith('|') || p.endsWith('^')
+  let best: string | null = null
+  for (const m of p.matchAll(/[a-z0-9%]+/g)) {
+    const start = m.index ?? 0
+    const end = start + m[0].length
+    if (m[0].length < 2) continue
+    if (start === 0 ? !anchoredStart : p[start - 1] === '*') continue
+    if (end === p.length ? !anchoredEnd : p[end] === '*') continue
+    if (!best || m[0].length > best.length) best = m[0]
+  }
+  return best
+}
+
+function splitDomains(value: string, separator: string): { include: string[]; exclude: string[] } {
+  const include: string[] = []
+  const exclude: string[] = []
+  for (const raw of value.split(separator)) {
+    const d = raw.trim().toLowerCase()
+    if (!d) continue
+    if (d.startsWith('~')) exclude.push(d.slice(1))
+    else include.push(d)
+  }
+  return { include, exclude }
+}
+
+function parseNetworkRule(line: string): { rule: NetworkRule; exception: boolean; token: string | null } | null {
+  let text = line
+  const exception = text.startsWith('@@')
+  if (exception) text = text.slice(2)
+
+  let pattern = text
+  let options: string[] = []
+  const isRegexRule = text.startsWith('/') && text.endsWith('/') && text.length > 2
+  const dollar = isRegexRule ? -1 : text.lastIndexOf('$')
+  if (dollar > 0) {
+    pattern = text.slice(0, dollar)
+    options = text.slice(dollar + 1).split(',')
+  }
+
+  const rule: NetworkRule = {
+    regex: /$^/,
+    types: null,
+    excludedTypes: null,
+    thirdParty: null,
+    includeDomains: null,
+    excludeDomains: null,
+  }
+  let matchCase = false
+
+  for (const rawOption of options) {
+    const [rawName, value] = rawOption.trim().split('=', 2)
+    const negated = rawName.startsWith('~')
+    const bare = (negated ? rawName.slice(1) : rawName).toLowerCase()
+    const name = OPTION_ALIASES[bare] ?? bare
+    if (REQUEST_TYPES.has(name)) {
+      const key = negated ? 'excludedTypes' : 'types'
+      ;(rule[key] ??= new Set()).add(name as RequestType)
+    } else if (name === 'third-party' || name === 'first-party') {
+      rule.thirdParty = (name === 'third-party') !== negated
+    } else if (name === 'domain' && value) {
+      const { include, exclude } = splitDomains(value, '|')
+      if (include.length) rule.includeDomains = include
+      if (exclude.length) rule.excludeDomains = exclude
+    } else if (name === 'match-case') {
+      matchCase = true
+    } else if (!IGNORED_OPTIONS.has(name)) {
+      // popup, document, csp, redirect, removeparam, … are not supported
+      return null
+    }
+  }
+
+  if (!pattern || pattern === '*' || pattern === '|' || pattern === '||') {
+    // A bare "$script,domain=x" rule only makes sense with options attached
+    if (!rule.types && !rule.includeDomains) return null
+    pattern = '*'
+  }
+
+  try {
+    if (pattern.startsWith('/') && pattern.endsWith('/') && pattern.length > 2) {
+      rule.regex = new RegExp(pattern.slice(1, -1), matchCase ? '' : 'i')
+      return { rule, exception, token: null }
+    }
+    rule.regex = patternToRegExp(pattern, matchCase)
+  } catch {
+    return null
+  }
+  return { rule, exception, token: ruleToken(pattern) }
+}
+
+function parseCosmeticRule(line: string): CosmeticRule | null {
+  const m = /^([^#]*)#(@?)#(.+)$/.exec(line)
+  if (!m) return null
+  const [, domains, at, selector] = m
+  // `##+js(...)` scriptlets and `##^` HTML filters
+  if (selector.startsWith('+js(') || selector.startsWith('^')) return null
+  if (EXTENDED_SELECTOR.test(selector)) return null
+  const { include, exclude } = splitDomains(domains, ',')
+  return { selector: selector.trim(), exception: at === '@', includeDomains: include, excludeDomains: exclude }
+}
+
+// -------------------- Engine -------------------------------------------------
+
+class FilterSet {
+  private blockByToken = new Map<string, NetworkRule[]>()
+  private blockGeneric: NetworkRule[] = []
+  private allowByToken = new Map<string, NetworkRule[]>()
+  private allowGeneric: NetworkRule[] = []
+
+  private genericHide = new Set<string>()
+  private genericUnhide = new Set<string>()
+  private genericHideWithExclusions: CosmeticRule[] = []
+  private hideByDomain = new Map<string, string[]>()
+  private unhideByDomain = new Map<string, Set<string>>()
+  private genericCss: string | null = null
+
+  lists: FilterListInfo[] = []
+
+  addList(name: string, text: string): void {
+    const info: FilterListInfo = { name, networkRules: 0, cosmeticRules: 0 }
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      if (!line || line.startsWith('!') || line.startsWith('[')) continue
+      // Extended cosmetic syntaxes (#?#, #$#, #%#, #@$#…) are out of scope
+      if (/#[?$%]#|#@[?$%]#/.test(line)) continue
+      if (/#@?#/.test(line)) {
+        const rule = parseCosmeticRule(line)
+        if (rule) { this.addCosmetic(rule); info.cosmeticRules++ }
+        continue
+      }
+      const parsed = parseNetworkRule(line)
+      if (!parsed) continue
+      const [byToken, generic] = parsed.exception
+        ? [this.allowByToken, this.allowGeneric]
+        : [this.blockByToken, this.blockGeneric]
+      if (parsed.token) {
+        const bucket = byToken.get(parsed.token)
+        if (bucket) bucket.push(parsed.rule)
+        else byToken.set(parsed.token, [parsed.rule])
+      } else {
+        generic.push(parsed.rule)
+      }
+      info.networkRules++
+    }
+    this.lists.push(info)
+    this.genericCss = null
+  }
+
+  private addCosmetic(rule: CosmeticRule): void {
+    if (rule.exception) {
+      if (rule.includeDomains.length === 0) {
+        this.genericUnhide.add(rule.selector)
+        return
+      }
+      for (const d of rule.includeDomains) {
+        const set = this.unhideByDomain.get(d) ?? new Set<string>()
+        set.add(rule.selector)
+        this.unhideByDomain.set(d, set)
+      }
+      return
+    }
+    if (rule.includeDomains.length > 0) {
+      for (const d of rule.includeDomains) {
+        const list = this.hideByDomain.get(d)
+        if (list) list.push(rule.selector)
+        else this.hideByDomain.set(d, [rule.selector])
+      }
+      // `a.com,~b.a.com##x` is rare enough to treat as `a.com##x`
+    } else if (rule.excludeDomains.length > 0) {
+      this.genericHideWithExclusions.push(rule)
+    } else {
+      this.genericHide.add(rule.selector)
+    }
+  }
+
+  private static matches(rule: NetworkRule, url: string, type: RequestType, docHost: string, thirdParty: boolean): boolean {
+    if (rule.types && !rule.types.has(type)) return false
+    if (rule.excludedTypes?.has(type)) return false
+    if (rule.thirdParty !== null && rule.thirdParty !== thirdParty) return false
+    if (rule.excludeDomains?.some((d) => hostMatches(docHost, d))) return false
+    if (rule.includeDomains && !rule.includeDomains.some((d) => hostMatches(docHost, d))) return false
+    return rule.regex.test(url)
+  }
+
+  private static find(
+    byToken: Map<string, NetworkRule[]>,
+    generic: NetworkRule[],
+    tokens: Set<string>,
+    url: string,
+    type: RequestType,
+    docHost: string,
+    thirdParty: boolean
+  ): boolean {
+    for (const token of tokens) {
+      const bucket = byToken.get(token)
+      if (bucket?.some((r) => FilterSet.matches(r, url, type, docHost, thirdParty))) return true
+    }
+    return generic.some((r) => FilterSet.matches(r, url, type, docHost, thirdParty))
+  }
+
+  shouldBlock(url: string, type: RequestType, docHost: string): boolean {
+    let reqHost: string
+    try { reqHost = new URL(url).hostname } catch { return false }
+    const thirdParty = !!docHost && baseDomain(reqHost) !== baseDomain(docHost)
+    const tokens = new Set(url.toLowerCase().match(/[a-z0-9%]{2,}/g) ?? [])
+    if (!FilterSet.find(this.blockByToken, this.blockGeneric, tokens, url, type, docHost, thirdParty)) return false
+    return !FilterSet.find(this.allowByToken, this.allowGeneric, tokens, url, type, docHost, thirdParty)
+  }
+
+  /** Element-hiding stylesheet for a page on `host` (empty when nothing applies). */
+  cssFor(host: string): string {
+    const suffixes = hostSuffixes(host)
+    const unhide = new Set<string>()
+    for (const sel of this.genericUnhide) unhide.add(sel)
+    const genericUnhideOnly = unhide.size
+    for (const s of suffixes) this.unhideByDomain.get(s)?.forEach((sel) => unhide.add(sel))
+
+    const selectors: string[] = []
+    for (const s of suffixes) {
+      for (const sel of this.hideByDomain.get(s) ?? []) if (!unhide.has(sel)) selectors.push(sel)
+    }
+    for (const rule of this.genericHideWithExclusions) {
+      if (unhide.has(rule.selector) || rule.excludeDomains.some((d) => hostMatches(host, d))) continue
+      selectors.push(rule.selector)
+    }
+
+    // One rule per selector: a single invalid selector would void a whole list
+    const toCss = (list: Iterable<string>): string => {
+      let css = ''
+      for (const sel of list) css += `${sel}{display:none!important}\n`
+      return css
+    }
+    let generic: string
+    if (unhide.size === genericUnhideOnly) {
+      this.genericCss ??= toCss([...this.genericHide].filter((sel) => !this.genericUnhide.has(sel)))
+      generic = this.genericCss
+    } else {
+      generic = toCss([...this.genericHide].filter((sel) => !unhide.has(sel)))
+    }
+    return generic + toCss(selectors)
+  }
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`)
+}
+
+function hostSuffixes(host: string): string[] {
+  const parts = host.split('.')
+  const out: string[] = []
+  for (let i = 0; i < parts.length - 1; i++) out.push(parts.slice(i).join('.'))
+  return out
+}
+
+/**
+ * Registrable domain for third-party checks. Without a public-suffix list this
+ * treats short second levels under a country code (co.uk, com.au) as suffixes.
+ */
+function baseDomain(host: string): string {
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return host
+  const parts = host.split('.')
+  if (parts.length <= 2) return host
+  const tld = parts[parts.length - 1]
+  const sld = parts[parts.length - 2]
+  const take = tld.length === 2 && sld.length <= 3 ? 3 : 2
+  return parts.slice(-take).join('.')
+}
+
+function hostOf(url: string | undefined): string {
+  if (!url) return ''
+  try {
+    const u = new URL(url)
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.hostname.toLowerCase() : ''
+  } catch {
+    return ''
+  }
+}
+
+let filters = new FilterSet()
+let loading: Promise<void> | null = null
+
+/** (Re)reads every *.txt in the filter folder. Requests pass untouched until this finishes. */
+export function loadFilterLists(): Promise<void> {
+  loading ??= (async () => {
+    const next = new FilterSet()
+    try {
+      await fs.promises.mkdir(FILTER_DIR, { recursive: true })
+      const names = (await fs.promises.readdir(FILTER_DIR)).filter((n) => /\.txt$/i.test(n)).sort()
+      for (const name of names) {
+        try {
+          next.addList(name, await fs.promises.readFile(path.join(FILTER_DIR, name), 'utf8'))
+        } catch (e) {
+          console.error(`[blocking] Failed to read ${name}:`, e)
+        }
+      }
+    } catch (e) {
+      console.error('[blocking] Failed to load filter lists:', e)
+    }
+    filters = next
+  })().finally(() => { loading = null })
+  return loading
+}
+
+// -------------------- Allowlist + counters ----------------------------------
+
+function normalizeSite(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '')
+}
+
+export function isSiteAllowed(host: string): boolean {
+  return blockingState.allowlist.some((site) => hostMatches(host, site))
+}
+
+export function setSiteAllowed(host: string, allowed: boolean): void {
+  const site = normalizeSite(host)
+  if (!site) return
+  if (allowed) {
+    if (!blockingState.allowlist.includes(site)) blockingState.allowlist.push(site)
+  } else {
+    blockingState.allowlist = blockingState.allowlist.filter((s) => !hostMatches(host, s) && s !== site)
+  }
+  flushState()
+}
+
+/** What the shield button shows for a page: blocking, allowlisted, or not applicable. */
+export function shieldStateFor(url: string): ShieldState {
+  const host = hostOf(url)
+  if (!blockingState.enabled || !host) return 'off'
+  return isSiteAllowed(host) ? 'allowed' : 'active'
+}
+
+const blockedCounts = new Map<string, number>()
+
+export function blockedCount(tabId: string): number {
+  return blockedCounts.get(tabId) ?? 0
+}
+
+export function resetBlockedCount(tabId: string): void {
+  blockedCounts.delete(tabId)
+}
+
+export function getContentBlockingStatus(): ContentBlockingStatus {
+  return {
+    enabled: blockingState.enabled,
+    allowlist: [...blockingState.allowlist].sort(),
+    filterDir: FILTER_DIR,
+    lists: filters.lists.map((l) => ({ ...l })),
+  }
+}
+
+// -------------------- Session + page hooks ----------------------------------
+
+const attachedSessions = new WeakSet<Session>()
+
+/**
+ * Installs the request filter on a profile's session once. `onBlocked` fires
+ * per cancelled request so the caller can refresh that tab's flags.
+ */
+export function attachContentBlocker(
+  ses: Session,
+  tabIdFor: (wc: WebContents | undefined) => string | null,
+  onBlocked: (tabId: string) => void
+): void {
+  if (attachedSessions.has(ses)) return
+  attachedSessions.add(ses)
+
+  ses.webRequest.onBeforeRequest((details, callback) => {
+    try {
+      const type = ELECTRON_TYPES[details.resourceType]
+      if (!blockingState.enabled || !type) { callback({}); return }
+      const wc = details.webContents
+      const tabId = tabIdFor(wc)
+      const pageHost = hostOf(wc?.getURL())
+      if (!tabId || !pageHost || isSiteAllowed(pageHost)) { callback({}); return }
+
+      let docHost = pageHost
+      try { docHost = hostOf(details.frame?.url) || pageHost } catch { /* frame disposed */ }
+
+      if (!filters.shouldBlock(details.url, type, docHost)) { callback({}); return }
+      blockedCounts.set(tabId, blockedCount(tabId) + 1)
+      callback({ cancel: true })
+      onBlocked(tabId)
+    } catch {
+      callback({})
+    }
+  })
+}
+
+/** Injects element hiding for the current document; call on dom-ready. */
+export function applyCosmeticFilters(wc: WebContents): void {
+  if (wc.isDestroyed()) return
+  const host = hostOf(wc.getURL())
+  if (!blockingState.enabled || !host || isSiteAllowed(host)) return
+  const css = filters.cssFor(host)
+  if (!css) return
+  wc.insertCSS(css, { cssOrigin: 'user' }).catch(() => { /* page gone */ })
+}
+
+export function registerContentBlockingIPC(sendNotice: (n: OverlayNotice) => void, onChanged: () => void): void {
+  void loadFilterLists()
+
+  const changed = (): { ok: true; status: ContentBlockingStatus } => {
+    const status = getContentBlockingStatus()
+    sendNotice({ kind: 'content-blocking-changed', status })
+    onChanged()
+    return { ok: true as const, status }
+  }
+
+  ipcMain.handle('overlay:get-content-blocking', () => ({ ok: true as const, status: getContentBlockingStatus() }))
+
+  ipcMain.handle('overlay:set-content-blocking', (_e, payload: { enabled: boolean }) => {
+    blockingState.enabled = !!payload?.enabled
+    flushState()
+    return changed()
+  })
+
+  ipcMain.handle('overlay:set-site-allowed', (_e, payload: { host: string; allowed: boolean }) => {
+    setSiteAllowed(payload?.host ?? '', !!payload?.allowed)
+    return changed()
+  })
+
+  ipcMain.handle('overlay:reload-filter-lists', async () => {
+    await loadFilterLists()
+    return changed()
+  })
+
+  ipcMain.handle('overlay:open-filter-folder', async () => {
+    await fs.promises.mkdir(FILTER_DIR, { recursive: true })
+    const error = await shell.openPath(FILTER_DIR)
+    return error ? { ok: false as const, error } : { ok: true as const }
+  })
+}
@@ -0,0 +1,202 @@
+import { app, dialog, ipcMain, shell } from 'electron'
+import type { DownloadItem, Session, WebContents } from 'electron'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { DownloadEntry, DownloadSettings, FileDataUrlResult, OverlayNotice } from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Downloads from every overlay session land here. Entries are keyed by a
+// stable id so the renderer can pause/resume/cancel and place file cards.
+
+const DOWNLOADS_FILE = userDataFile('downloads.json')
+const MAX_HISTORY = 500
+const PROGRESS_NOTICE_MS = 250
+
+type DownloadsFile = { settings: DownloadSettings; history: DownloadEntry[] }
+
+const stored = readJsonFile<Partial<DownloadsFile>>(DOWNLOADS_FILE, {})
+const settings: DownloadSettings = {
+  directory: stored.settings?.directory || app.getPath('downloads'),
+}
+const history: DownloadEntry[] = Array.isArray(stored.history) ? stored.history : []
+
+// Anything still "in flight" from a previous run died with that process.
+for (const entry of history) {
+  if (entry.state === 'progressing' || entry.state === 'paused') entry.state = 'interrupted'
+}
+
+const flushDownloads = createDebouncedWriter(DOWNLOADS_FILE, (): DownloadsFile => ({ settings, history }))
+
+const items = new Map<string, DownloadItem>()
+const trackedSessions = new WeakSet<Session>()
+
+/** Picks a free file name in the target directory: `a.zip`, `a (1).zip`, … */
+function uniqueSavePath(dir: string, filename: string): string {
+  const safe = filename.replace(/[\\/:*?"<>|]/g, '_') || 'download'
+  const ext = path.extname(safe)
+  const stem = safe.slice(0, safe.length - ext.length)
+  let candidate = path.join(dir, safe)
+  for (let n = 1; fs.existsSync(candidate) || [...items.values()].some((i) => i.getSavePath() === candidate); n++) {
+    candidate = path.join(dir, `${stem} (${n})${ext}`)
+  }
+  return candidate
+}
+
+function toEntry(id: string, item: DownloadItem, tabId: string | null, prev?: DownloadEntry): DownloadEntry {
+  const state = item.getState()
+  return {
+    id,
+    tabId,
+    url: item.getURL(),
+    filename: path.basename(item.getSavePath() || item.getFilename()),
+    savePath: item.getSavePath(),
+    mimeType: item.getMimeType(),
+    totalBytes: item.getTotalBytes(),
+    receivedBytes: item.getReceivedBytes(),
+    state: state === 'progressing' && item.isPaused() ? 'paused' : state,
+    canResume: item.canResume(),
+    startedAt: prev?.startedAt ?? (Math.round(item.getStartTime() * 1000) || Date.now()),
+    endedAt: state === 'progressing' ? undefined : Date.now(),
+  }
+}
+
+function upsertEntry(entry: DownloadEntry): void {
+  const idx = history.findIndex((e) => e.id === entry.id)
+  if (idx === -1) history.unshift(entry)
+  else history[idx] = entry
+  if (history.length > MAX_HISTORY) history.length = MAX_HISTORY
+  flushDownloads()
+}
+
+export function activeDownloadCount(tabId: string): number {
+  return history.filter((e) => e.tabId === tabId && (e.state === 'progressing' || e.state === 'paused')).length
+}
+
+export function trackSessionDownloads(
+  ses: Session,
+  tabIdFor: (wc: WebContents | undefined) => string | null,
+  sendNotice: (n: OverlayNotice) => void,
+  onTabChanged: (tabId: string) => void
+): void {
+  if (trackedSessions.has(ses)) return
+  trackedSessions.add(ses)
+
+  ses.on('will-download', (_e, item, sourceWc) => {
+    const id = `dl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    const tabId = tabIdFor(sourceWc)
+    try {
+      fs.mkdirSync(settings.directory, { recursive: true })
+      item.setSavePath(uniqueSavePath(settings.directory, item.getFilename()))
+    } catch (err) {
+      console.warn('[downloads] Could not apply save location policy:', err)
+    }
+    items.set(id, item)
+
+    let entry = toEntry(id, item, tabId)
+    upsertEntry(entry)
+    sendNotice({ kind: 'download-started', download: entry })
+    if (tabId) onTabChanged(tabId)
+
+    let lastNotice = 0
+    item.on('updated', () => {
+      entry = toEntry(id, item, tabId, entry)
+      upsertEntry(entry)
+      const now = Date.now()
+      if (now - lastNotice < PROGRESS_NOTICE_MS) return
+      lastNotice = now
+      sendNotice({ kind: 'download-progress', download: entry })
+    })
+
+    item.once('done', () => {
+      entry = toEntry(id, item, tabId, entry)
+      items.delete(id)
+      upsertEntry(entry)
+      sendNotice({ kind: 'download-done', download: entry })
+      if (tabId) onTabChanged(tabId)
+    })
+  })
+}
+
+export function registerDownloadIPC(sendNotice: (n: OverlayNotice) => void): void {
+  const withItem = (id: string, fn: (item: DownloadItem) => void): { ok: true } | { ok: false; error: string } => {
+    const item = items.get(id)
+    if (!item) return { ok: false, error: 'No active download' }
+    try {
+      fn(item)
+      return { ok: true }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  const refresh = (id: string): void => {
+    const item = items.get(id)
+    const prev = history.find((e) => e.id === id)
+    if (!item || !prev) return
+    const entry = toEntry(id, item, prev.tabId, prev)
+    upsertEntry(entry)
+    sendNotice({ kind: 'download-progress', download: entry })
+  }
+
+  ipcMain.handle('overlay:list-downloads', () => ({ ok: true as const, downloads: history.slice() }))
+
+  ipcMain.handle('overlay:pause-download', (_e, { id }: { id: string }) => {
+    const res = withItem(id, (item) => item.pause())
+    refresh(id)
+    return res
+  })
+
+  ipcMain.handle('overlay:resume-download', (_e, { id }: { id: string }) => {
+    const res = withItem(id, (item) => {
+      if (!item.canResume()) throw new Error('Download cannot be resumed')
+      item.resume()
+    })
+    refresh(id)
+    return res
+  })
+
+  ipcMain.handle('overlay:cancel-download', (_e, { id }: { id: string }) => withItem(id, (item) => item.cancel()))
+
+  // Shared by download rows and file-card shapes, which only know the path
+  ipcMain.handle('overlay:open-file', async (_e, { filePath, reveal }: { filePath: string; reveal?: boolean }) => {
+    if (!filePath || !fs.existsSync(filePath)) return { ok: false as const, error: 'File is missing' }
+    if (reveal) {
+      shell.showItemInFolder(filePath)
+      return { ok: true as const }
+    }
+    const error = await shell.openPath(filePath)
+    return error ? { ok: false as const, error } : { ok: true as const }
+  })
+
+  // Read here rather than in the renderer so a large image doesn't block the canvas
+  ipcMain.handle('overlay:read-file-data-url', async (_e, { filePath, mimeType }: { filePath: string; mimeType: string }): Promise<FileDataUrlResult> => {
+    try {
+      const data = await fs.promises.readFile(filePath)
+      return { ok: true, dataUrl: `data:${mimeType};base64,${data.toString('base64')}`, name: path.basename(filePath) }
+    } catch {
+      return { ok: false, error: 'File is missing' }
+    }
+  })
+
+  ipcMain.handle('overlay:clear-downloads', () => {
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (!items.has(history[i].id)) history.splice(i, 1)
+    }
+    flushDownloads()
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:get-download-settings', () => ({ ok: true as const, settings: { ...settings } }))
+
+  ipcMain.handle('overlay:choose-download-directory', async () => {
+    const res = await dialog.showOpenDialog({
+      title: 'Save downloads to',
+      defaultPath: settings.directory,
+      properties: ['openDirectory', 'createDirectory'],
+    })
+    if (res.canceled || !res.filePaths[0]) return { ok: false as const, error: 'cancelled' }
+    settings.directory = res.filePaths[0]
+    flushDownloads()
+    return { ok: true as const, settings: { ...settings } }
+  })
+}
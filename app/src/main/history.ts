@@ -0,0 +1,293 @@
+import { app, ipcMain } from 'electron'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import type { HistoryEntry, HistoryQuery, HistorySuggestion, OverlayNotice } from '../types/overlay'
+import { userDataFile, writeFileAtomic } from './jsonStore'
+
+// Global browsing history, newest first. Entries outlive the shapes that
+// produced them; `tabId` only records where a visit came from.
+//
+// history.jsonl is an append-only log so a visit costs one short line rather
+// than rewriting every entry: `{"put":entry}` adds or replaces an entry by id,
+// `{"del":[ids]}` removes some. It is compacted to one put per entry at
+// startup and once the log has grown well past the live entries.
+
+const DAY = 24 * 60 * 60 * 1000
+
+const HISTORY_FILE = userDataFile('history.jsonl')
+// Visits expire by age, as in other browsers
+const MAX_AGE_MS = 365 * DAY
+// Safety net against runaway growth; far above what a year of browsing produces
+const MAX_ENTRIES = 1_000_000
+const APPEND_DELAY_MS = 1000
+// Compact once the log has this many lines per live entry (plus slack for small histories)
+const COMPACT_RATIO = 2
+const COMPACT_SLACK = 5_000
+// Larger deletions rewrite the file instead of logging every id
+const MAX_LOGGED_DELETES = 1_000
+const DEFAULT_LIMIT = 200
+const DEFAULT_SUGGESTIONS = 20
+
+type LogLine = { put: HistoryEntry } | { del: string[] }
+
+let logLines = 0
+let pendingLines: string[] = []
+let needsCompact = false
+let writeTimer: NodeJS.Timeout | null = null
+
+function readLog(): HistoryEntry[] {
+  const byId = new Map<string, HistoryEntry>()
+  for (const line of fs.readFileSync(HISTORY_FILE, 'utf8').split('\n')) {
+    if (!line) continue
+    logLines++
+    try {
+      const op = JSON.parse(line) as LogLine
+      if ('put' in op) byId.set(op.put.id, op.put)
+      else for (const id of op.del) byId.delete(id)
+    } catch { /* a line torn by a crash mid-append */ }
+  }
+  return [...byId.values()].sort((a, b) => b.visitedAt - a.visitedAt)
+}
+
+function loadEntries(): HistoryEntry[] {
+  if (!fs.existsSync(HISTORY_FILE)) return []
+  try {
+    return readLog()
+  } catch (e) {
+    console.error('[history] Failed to read history.jsonl:', e)
+    return []
+  }
+}
+
+function compact(): void {
+  const lines = entries.map((e) => `${JSON.stringify({ put: e })}\n`).reverse()
+  writeFileAtomic(HISTORY_FILE, lines.join(''))
+  logLines = lines.length
+  pendingLines = []
+  needsCompact = false
+}
+
+function writeLog(): void {
+  writeTimer = null
+  try {
+    if (needsCompact || logLines + pendingLines.length > entries.length * COMPACT_RATIO + COMPACT_SLACK) {
+      compact()
+      return
+    }
+    if (pendingLines.length === 0) return
+    fs.appendFileSync(HISTORY_FILE, pendingLines.join(''))
+    logLines += pendingLines.length
+    pendingLines = []
+  } catch (e) {
+    console.error('[history] Failed to write history.jsonl:', e)
+  }
+}
+
+/** Writes pending visits now, e.g. before quitting. */
+export function flushHistory(): void {
+  if (writeTimer) clearTimeout(writeTimer)
+  writeLog()
+}
+
+function scheduleWrite(): void {
+  writeTimer ??= setTimeout(writeLog, APPEND_DELAY_MS)
+}
+
+function logPut(entry: HistoryEntry): void {
+  pendingLines.push(`${JSON.stringify({ put: entry })}\n`)
+  scheduleWrite()
+}
+
+function logDeleted(ids: string[]): void {
+  if (ids.length === 0) return
+  if (ids.length > MAX_LOGGED_DELETES) needsCompact = true
+  else pendingLines.push(`${JSON.stringify({ del: ids })}\n`)
+  scheduleWrite()
+}
+
+// Drops visits past MAX_AGE_MS or MAX_ENTRIES; they sit at the end, so this is cheap
+function expireOld(): string[] {
+  const cutoff = Date.now() - MAX_AGE_MS
+  const expired: string[] = []
+  while (entries.length > 0 && (entries.length > MAX_ENTRIES || entries[entries.length - 1].visitedAt < cutoff)) {
+    expired.push(entries.pop()!.id)
+  }
+  return expired
+}
+
+const entries: HistoryEntry[] = loadEntries()
+if (expireOld().length > 0) needsCompact = true
+if (needsCompact || logLines > entries.length * COMPACT_RATIO + COMPACT_SLACK) writeLog()
+
+let notify: ((n: OverlayNotice) => void) | null = null
+
+// One row per distinct URL for address-bar suggestions. Rebuilt lazily after
+// history changes so typing never scans more than the distinct URLs.
+interface IndexedUrl extends HistorySuggestion {
+  // Lowercased URL without scheme and leading "www."
+  bare: string
+  haystack: string
+}
+let urlIndex: IndexedUrl[] | null = null
+
+function isRecordable(url: string): boolean {
+  return /^(https?|file):/i.test(url)
+}
+
+function changed(): void {
+  urlIndex = null
+  notify?.({ kind: 'history-changed' })
+}
+
+/**
+ * Adds a visit. Reloads, restores and redirects that land on the URL the tab
+ * already shows only refresh the latest entry instead of stacking duplicates.
+ */
+export function recordVisit(visit: { url: string; title: string; tabId: string; profile: string }): void {
+  if (!isRecordable(visit.url)) return
+  const last = entries.find((e) => e.tabId === visit.tabId)
+  if (last && last.url === visit.url) {
+    last.visitedAt = Date.now()
+    if (visit.title) last.title = visit.title
+    // Keep newest-first order
+    entries.splice(entries.indexOf(last), 1)
+    entries.unshift(last)
+    logPut(last)
+  } else {
+    const entry: HistoryEntry = { id: randomUUID(), ...visit, visitedAt: Date.now() }
+    entries.unshift(entry)
+    logPut(entry)
+    logDeleted(expireOld())
+  }
+  changed()
+}
+
+/** Titles usually arrive after did-navigate; attach them to the tab's latest visit. */
+export function updateVisitTitle(tabId: string, url: string, title: string): void {
+  const last = entries.find((e) => e.tabId === tabId)
+  if (!last || last.url !== url || !title || last.title === title) return
+  last.title = title
+  logPut(last)
+  changed()
+}
+
+export function queryHistory(query: HistoryQuery = {}): { entries: HistoryEntry[]; total: number } {
+  const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+  const matches = entries.filter((e) => {
+    if (query.from != null && e.visitedAt < query.from) return false
+    if (query.to != null && e.visitedAt >= query.to) return false
+    if (query.profile && e.profile !== query.profile) return false
+    if (words.length === 0) return true
+    const haystack = `${e.title}\n${e.url}`.toLowerCase()
+    return words.every((w) => haystack.includes(w))
+  })
+  const offset = Math.max(0, query.offset ?? 0)
+  const limit = Math.max(1, query.limit ?? DEFAULT_LIMIT)
+  return { entries: matches.slice(offset, offset + limit), total: matches.length }
+}
+
+/** Recent visits count for more, in the spirit of Firefox's frecency buckets. */
+function visitWeight(age: number): number {
+  if (age < 4 * DAY) return 100
+  if (age < 14 * DAY) return 70
+  if (age < 31 * DAY) return 50
+  if (age < 90 * DAY) return 30
+  return 10
+}
+
+function bareUrl(url: string): string {
+  return url.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '')
+}
+
+function buildUrlIndex(): IndexedUrl[] {
+  const now = Date.now()
+  const byUrl = new Map<string, IndexedUrl>()
+  // Newest first, so the first visit seen carries the latest title
+  for (const e of entries) {
+    let row = byUrl.get(e.url)
+    if (!row) {
+      row = { url: e.url, title: e.title, visitCount: 0, lastVisitedAt: e.visitedAt, frecency: 0, bare: bareUrl(e.url), haystack: '' }
+      byUrl.set(e.url, row)
+    }
+    if (!row.title && e.title) row.title = e.title
+    row.visitCount++
+    row.frecency += visitWeight(now - e.visitedAt)
+  }
+  const rows = [...byUrl.values()]
+  for (const row of rows) row.haystack = `${row.bare}\n${row.title.toLowerCase()}`
+  return rows
+}
+
+/**
+ * Distinct URLs whose address or title contains every word of `text`. URLs
+ * that start with the typed text come first so inline completion finds them;
+ * the renderer does the final ranking against bookmarks and open shapes.
+ */
+export function suggestHistory(text: string, limit = DEFAULT_SUGGESTIONS): HistorySuggestion[] {
+  const typed = bareUrl(text.trim())
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+  urlIndex ??= buildUrlIndex()
+
+  const prefixed: IndexedUrl[] = []
+  const others: IndexedUrl[] = []
+  for (const row of urlIndex) {
+    if (row.bare.startsWith(typed)) prefixed.push(row)
+    else if (words.every((w) => row.haystack.includes(w))) others.push(row)
+  }
+  const byFrecency = (a: IndexedUrl, b: IndexedUrl): number => b.frecency - a.frecency || b.lastVisitedAt - a.lastVisitedAt
+  return [...prefixed.sort(byFrecency), ...others.sort(byFrecency)]
+    .slice(0, Math.max(1, limit))
+    .map(({ url, title, visitCount, lastVisitedAt, frecency }) => ({ url, title, visitCount, lastVisitedAt, frecency }))
+}
+
+// One pass, so clearing a large history doesn't splice entry by entry
+function removeWhere(match: (e: HistoryEntry) => boolean): string[] {
+  const removed: string[] = []
+  let kept = 0
+  for (const e of entries) {
+    if (match(e)) removed.push(e.id)
+    else entries[kept++] = e
+  }
+  entries.length = kept
+  return removed
+}
+
+export function deleteHistoryEntries(ids: string[]): number {
+  const drop = new Set(ids)
+  const removed = removeWhere((e) => drop.has(e.id))
+  if (removed.length === 0) return 0
+  logDeleted(removed)
+  changed()
+  return removed.length
+}
+
+/** Clears visits in [from, to); both open-ended when omitted. */
+export function clearHistory(range: { from?: number; to?: number } = {}): number {
+  const removed = removeWhere((e) =>
+    (range.from == null || e.visitedAt >= range.from) && (range.to == null || e.visitedAt < range.to))
+  if (removed.length === 0) return 0
+  logDeleted(removed)
+  changed()
+  return removed.length
+}
+
+export function registerHistoryIPC(sendNotice: (n: OverlayNotice) => void): void {
+  notify = sendNotice
+  app.on('will-quit', flushHistory)
+
+  ipcMain.handle('overlay:query-history', (_e, query?: HistoryQuery) => ({ ok: true as const, ...queryHistory(query) }))
+
+  ipcMain.handle('overlay:suggest-history', (_e, payload: { text: string; limit?: number }) =>
+    ({ ok: true as const, suggestions: suggestHistory(String(payload?.text ?? ''), payload?.limit) }))
+
+  ipcMain.handle('overlay:delete-history', (_e, payload: { ids: string[] }) => {
+    deleteHistoryEntries(Array.isArray(payload?.ids) ? payload.ids : [])
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:clear-history', (_e, payload?: { from?: number; to?: number }) => {
+    clearHistory(payload ?? {})
+    return { ok: true as const }
+  })
+}
@@ -4,6 +4,7 @@ import { fileURLToPath } from "url";
 import os from "os";
 import { setupOverlayIPC } from "./overlay";
 import { startCookieServer, stopCookieServer } from './canvas-cookie-server'
+import { flushPendingWrites } from './jsonStore'
 
 
 
@@ -158,4 +159,8 @@ app.on("second-instance", () => {
 app.on("before-quit", () => {
   stopCookieServer()
   setHighPerformanceMode(false);
+  flushPendingWrites()
 });
+
+// Stores changed while windows close (after before-quit) are written here
+app.on("will-quit", flushPendingWrites);
@@ -0,0 +1,81 @@
+import { app } from 'electron'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+// Small JSON files under userData (profiles, downloads, history…). Reads are
+// synchronous at startup; writes are debounced like browser-state.json, go
+// through a temp file so a crash can't leave one half-written, and are flushed
+// before quitting.
+
+// Flushes for writers with a write still pending
+const pendingWrites = new Set<() => void>()
+
+export function userDataFile(name: string): string {
+  return path.join(app.getPath('userData'), name)
+}
+
+export function readJsonFile<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T
+  } catch (e) {
+    console.error(`[store] Failed to read ${path.basename(file)}:`, e)
+    // Kept aside, since the next write replaces the unreadable file
+    try { fs.copyFileSync(file, `${file}.corrupt`) } catch { /* best effort */ }
+    return fallback
+  }
+}
+
+/**
+ * Writes to a temp file beside `file`, syncs it to disk and renames it over
+ * `file`, so a crash mid-write leaves the previous contents intact.
+ */
+export function writeFileAtomic(file: string, text: string): void {
+  const tmp = `${file}.tmp`
+  const fd = fs.openSync(tmp, 'w')
+  try {
+    fs.writeSync(fd, text)
+    fs.fsyncSync(fd)
+  } finally {
+    fs.closeSync(fd)
+  }
+  fs.renameSync(tmp, file)
+}
+
+export function writeJsonFileAtomic(file: string, data: unknown): void {
+  writeFileAtomic(file, JSON.stringify(data, null, 2))
+}
+
+export function createDebouncedWriter(file: string, getData: () => unknown, delayMs = 250): () => void {
+  let timer: NodeJS.Timeout | null = null
+  const write = (): void => {
+    if (timer) clearTimeout(timer)
+    timer = null
+    pendingWrites.delete(write)
+    try {
+      writeJsonFileAtomic(file, getData())
+    } catch (e) {
+      console.error(`[store] Failed to write ${path.basename(file)}:`, e)
+    }
+  }
+  return () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(write, delayMs)
+    pendingWrites.add(write)
+  }
+}
+
+/** Writes every store with a debounced write still pending, e.g. before quitting. */
+export function flushPendingWrites(): void {
+  for (const write of [...pendingWrites]) write()
+}
+
+/** Copies `file` to `file.1`, shifting older copies up to `file.<count>`. */
+export function rotateBackups(file: string, count: number): void {
+  if (!fs.existsSync(file)) return
+  for (let i = count - 1; i >= 1; i--) {
+    const from = `${file}.${i}`
+    if (fs.existsSync(from)) fs.renameSync(from, `${file}.${i + 1}`)
+  }
+  fs.copyFileSync(file, `${file}.1`)
+}
@@ -0,0 +1,27 @@
+import type { NavError } from '../types/overlay'
+
+// Chromium net error codes (net/base/net_error_list.h) grouped the way the
+// in-shape error page explains them. Certificate errors are -200 to -299.
+
+const ERR_ABORTED = -3
+
+const DNS_ERRORS = new Set([-105, -137])
+const TIMEOUT_ERRORS = new Set([-7, -118])
+const CONNECTION_ERRORS = new Set([-21, -100, -101, -102, -104, -106, -108, -109, -130])
+
+function kindFor(code: number): NavError['kind'] {
+  if (DNS_ERRORS.has(code)) return 'dns'
+  if (TIMEOUT_ERRORS.has(code)) return 'timeout'
+  if (CONNECTION_ERRORS.has(code)) return 'connection'
+  if (code <= -200 && code > -300) return 'certificate'
+  return 'other'
+}
+
+/**
+ * Describes a main-frame `did-fail-load`. Aborted loads (the user stopped or
+ * navigated elsewhere) return null: the next navigation replaces them anyway.
+ */
+export function navErrorFor(code: number, description: string, url: string): NavError | null {
+  if (code === ERR_ABORTED || code >= 0) return null
+  return { code, description: description || `Error ${code}`, url, kind: kindFor(code), at: Date.now() }
+}
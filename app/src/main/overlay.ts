@@ -1,17 +1,56 @@
-import { app, BrowserWindow, ipcMain, Menu, desktopCapturer, dialog, WebContents, sharedTexture, shell } from 'electron'
-import type { Input, SystemMemoryInfo } from 'electron'
-import { writeFileSync, readFileSync, existsSync } from 'fs'
-import type { OverlayNotice, Flags, BoundsPayload } from '../../src/types/overlay'
+import { app, BrowserWindow, ipcMain, Menu, MessageChannelMain, desktopCapturer, dialog, screen, WebContents, sharedTexture, shell } from 'electron'
+import type { Input, MessagePortMain, SystemMemoryInfo } from 'electron'
+import type { OverlayNotice, Flags, BoundsPayload, FrameMode, FindInPagePayload, StopFindPayload, SetZoomPayload, SpatialAudioEntry, FrameRateEntry, RenderScaleEntry, MetricsResult, TabProcessMetrics, AppProcessMetrics, PrintToPdfPayload, SavedFile, FullPageCaptureResult, ShieldState, TabCrashInfo, SnapshotRequest, SnapshotResult, ThumbLevel, PersistedThumbLevel, ReadThumbResult } from '../../src/types/overlay'
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { SharedTextureStream } from './sharedTextureStream'
+import { SoftwareFrameStream } from './softwareFrameStream'
+import { DEFAULT_PROFILE_ID, getProfile, partitionForProfile, registerProfileIPC } from './profiles'
+import { activeDownloadCount, registerDownloadIPC, trackSessionDownloads } from './downloads'
+import { attachPermissionHandlers, registerPermissionIPC } from './permissions'
+import { DEFAULT_ZOOM, clampZoom, getStoredZoom, stepZoom, storeZoom, zoomHostOf } from './zoom'
+import { DEFAULT_VOLUME, applyMediaAudio, applyTabAudio, clampPan, clampVolume } from './audio'
+import { registerSettingsIPC } from './settings'
+import { captureFullPage, printPageToPdf, waitForPaint } from './pageCapture'
+import { navErrorFor } from './navErrors'
+import { recordVisit, registerHistoryIPC, updateVisitTitle } from './history'
+import { registerBookmarkIPC } from './bookmarks'
+import { discoverOpenSearch, getDefaultEngine, registerSearchEngineIPC, searchUrlFor } from './searchEngines'
+import {
+  applyCosmeticFilters,
+  attachContentBlocker,
+  blockedCount,
+  getContentBlockingStatus,
+  isSiteAllowed,
+  registerContentBlockingIPC,
+  resetBlockedCount,
+  setSiteAllowed,
+  shieldStateFor,
+} from './contentBlocking'
+import type { TabAudio } from './audio'
+import { applyPageState, capturePageState } from './pageState'
+import { encodeThumbLevels, readThumbLevel, writeThumbLevels } from './thumbnails'
+import { loadBrowserState, writeBrowserState } from './browserStateStore'
+import type { SavedPageState } from './pageState'
 
 
 type ViewState = {
   view: BrowserWindow
   lastBounds: { w: number; h: number }
-  lastFrame?: string
-  frameStream: SharedTextureStream
+  // Poster levels of the last snapshot, served if a later capture fails
+  lastThumbs?: ThumbLevel[]
+  frameStream: SharedTextureStream | SoftwareFrameStream
+  profileId: string
+  audio: TabAudio
+  // Last rate passed to setFrameRate
+  frameRate: number
+  // The user's page zoom; Chromium's zoom factor is this times surfaceScale
+  zoomFactor: number
+  // Surface resolution asked for by the renderer, and what was applied after limits
+  renderScale: number
+  surfaceScale: number
+  // Floor on the render scale while a capture is in progress
+  captureScale: number
   navState: {
     currentUrl: string
     canGoBack: boolean
@@ -35,20 +74,33 @@ function deleteThumbFile(thumbPath?: string): void {
   } catch { }
 }
 
+// Every poster file of a tab: the level files plus thumbPath, which is the
+// largest level (or the single file written before levels existed)
+function thumbFilesOf(state: PersistedTabState | undefined): string[] {
+  if (!state) return []
+  const files = (state.thumbLevels ?? []).map((level) => level.path)
+  if (state.thumbPath && !files.includes(state.thumbPath)) files.push(state.thumbPath)
+  return files
+}
+
 function cleanupThumbState(): void {
   ensureThumbsDir()
 
   for (const state of Object.values(browserState)) {
     if (!state.thumbPath) continue
-    if (fs.existsSync(state.thumbPath)) continue
+    if (fs.existsSync(state.thumbPath)) {
+      state.thumbLevels = state.thumbLevels?.filter((level) => fs.existsSync(level.path))
+      continue
+    }
     state.thumbPath = undefined
+    state.thumbLevels = undefined
     state.hasScreenshot = false
   }
 
   const referenced = new Set(
     Object.values(browserState)
-      .map((state) => state.thumbPath)
-      .filter((thumbPath): thumbPath is string => typeof thumbPath === 'string' && thumbPath.length > 0)
+      .flatMap((state) => thumbFilesOf(state))
+      .filter((thumbPath) => thumbPath.length > 0)
       .map((thumbPath) => path.resolve(thumbPath))
   )
 
@@ -67,16 +119,38 @@ type GetNavStateResponse = (Ok & ViewState['navState'] & { isLoading: boolean })
 type PressureLevel = 'normal' | 'elevated' | 'critical'
 
 const MAX_VIEWS = 50
+// New tabs paint at this rate until the renderer's governor picks one
+const DEFAULT_FRAME_RATE = 30
+const MAX_FRAME_RATE = 60
+// Chromium's page zoom range, which bounds how far the render scale can be folded in
+const MIN_PAGE_ZOOM = 0.25
+const MAX_PAGE_ZOOM = 5
+// Longest offscreen surface edge, in pixels
+const MAX_SURFACE_PX = 8192
+// Back/forward entries kept per tab in browser-state.json
+const MAX_PERSISTED_HISTORY = 50
 const destroying = new Set<string>()
 
 type LifecycleKind = 'live' | 'frozen' | 'discarded';
 
+interface PersistedHistory {
+  entries: Array<{ url: string; title: string }>;
+  index: number;
+}
+
 interface PersistedTabState {
   currentUrl: string;
   lastInteraction: number;
   lifecycle?: LifecycleKind;
   hasScreenshot?: boolean;
   thumbPath?: string;
+  thumbLevels?: PersistedThumbLevel[];
+  profile?: string;
+  muted?: boolean;
+  volume?: number;
+  history?: PersistedHistory;
+  // Scroll and form state taken at discard, until the restored page applies it
+  pageState?: SavedPageState;
 }
 
 function buildBrowserUserAgent(): string {
@@ -91,31 +165,56 @@ function buildBrowserUserAgent(): string {
 }
 
 const BROWSER_USER_AGENT = buildBrowserUserAgent()
-const OVERLAY_PARTITION = 'persist:overlay'
 app.userAgentFallback = BROWSER_USER_AGENT
 
-const browserState: Record<string, PersistedTabState> = {};
-
-const STATE_FILE = path.join(app.getPath('userData'), 'browser-state.json')
-if (existsSync(STATE_FILE)) {
+// GPU shared textures need a working compositor. Headless CI boxes and VMs fall
+// back to copying the offscreen `paint` bitmap over a MessagePort instead.
+// PAPER_FRAME_MODE=software|shared-texture overrides the detection.
+function detectFrameMode(): FrameMode {
+  const forced = process.env.PAPER_FRAME_MODE
+  if (forced === 'software' || forced === 'shared-texture') return forced
+  if (!sharedTexture || typeof sharedTexture.importSharedTexture !== 'function') return 'software'
   try {
-    Object.assign(browserState, JSON.parse(readFileSync(STATE_FILE, 'utf8')))
-  } catch (e) {
-    console.error('[overlay] Failed to read browser state:', e)
+    const status = app.getGPUFeatureStatus()
+    if (!status.gpu_compositing?.startsWith('enabled')) return 'software'
+  } catch {
+    return 'software'
   }
+  return 'shared-texture'
 }
+
+// The renderer maps pointers into CSS layout pixels; the surface (and so
+// sendInputEvent's coordinate space) is `scale` times larger. Wheel deltas are
+// scaled too so a notch scrolls the same CSS distance at any resolution.
+function toSurfaceInput<T extends object>(event: T, scale: number): T {
+  if (scale === 1 || !event || typeof event !== 'object') return event
+  const out = { ...event } as Record<string, unknown>
+  if (typeof out.x === 'number') out.x = Math.round(out.x * scale)
+  if (typeof out.y === 'number') out.y = Math.round(out.y * scale)
+  if (typeof out.deltaX === 'number') out.deltaX *= scale
+  if (typeof out.deltaY === 'number') out.deltaY *= scale
+  return out as T
+}
+
+const browserState = loadBrowserState() as Record<string, PersistedTabState>
 cleanupThumbState()
 
 let writeTimer: NodeJS.Timeout | null = null
+
+// Writes immediately, dropping any pending debounced write
+function flushBrowserStateNow(): void {
+  if (writeTimer) clearTimeout(writeTimer)
+  writeTimer = null
+  try {
+    writeBrowserState(browserState)
+  } catch (e) {
+    console.error('[overlay] Failed to write browser state:', e)
+  }
+}
+
 function flushBrowserState(): void {
   if (writeTimer) clearTimeout(writeTimer)
-  writeTimer = setTimeout(() => {
-    try {
-      writeFileSync(STATE_FILE, JSON.stringify(browserState, null, 2))
-    } catch (e) {
-      console.error('[overlay] Failed to write browser state:', e)
-    }
-  }, 100)
+  writeTimer = setTimeout(flushBrowserStateNow, 100)
 }
 
 function upsertBrowserState(
@@ -129,14 +228,57 @@ function upsertBrowserState(
     lifecycle: patch.lifecycle ?? prev?.lifecycle ?? 'live',
     hasScreenshot: patch.hasScreenshot ?? prev?.hasScreenshot ?? false,
     thumbPath: patch.thumbPath ?? prev?.thumbPath,
+    thumbLevels: patch.thumbLevels ?? prev?.thumbLevels,
+    profile: patch.profile ?? prev?.profile,
+    muted: patch.muted ?? prev?.muted,
+    volume: patch.volume ?? prev?.volume,
+    history: patch.history ?? prev?.history,
+    pageState: patch.pageState ?? prev?.pageState,
+  }
+}
+
+// The tab's back/forward list, trimmed to MAX_PERSISTED_HISTORY entries around
+// the current one. Undefined when the list can't be read (e.g. renderer gone).
+function captureHistory(wc: WebContents): PersistedHistory | undefined {
+  try {
+    const nav = wc.navigationHistory
+    const all = nav.getAllEntries()
+    const active = nav.getActiveIndex()
+    if (all.length === 0 || active < 0) return undefined
+    const start = Math.max(0, Math.min(active - Math.floor(MAX_PERSISTED_HISTORY / 2), all.length - MAX_PERSISTED_HISTORY))
+    const entries = all.slice(start, start + MAX_PERSISTED_HISTORY).map(({ url, title }) => ({ url, title }))
+    return { entries, index: active - start }
+  } catch {
+    return undefined
   }
 }
 
 export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
   const views = new Map<string, ViewState>()
+  const frameMode = detectFrameMode()
+  console.log(`[overlay] Frame mode: ${frameMode}`)
+
+  // Software frames travel over a single port per renderer load; the preload
+  // asks for a fresh one every time the page (re)loads.
+  let framePort: MessagePortMain | null = null
+  ipcMain.on('overlay:request-frame-port', (e) => {
+    if (frameMode !== 'software') return
+    try { framePort?.close() } catch { }
+    const { port1, port2 } = new MessageChannelMain()
+    port1.start()
+    framePort = port1
+    e.sender.postMessage('overlay-frame-port', null, [port2])
+    // Repaint every tab so the new buffer fills even where pages are static
+    for (const state of views.values()) {
+      try { if (!state.view.isDestroyed()) state.view.webContents.invalidate() } catch { /* ignore */ }
+    }
+  })
 
   const closeAllOverlayViews = (): void => {
     for (const [tabId, state] of views) {
+      // Titles arrive after did-navigate, so take the list once more before it goes
+      const history = state.view.isDestroyed() ? undefined : captureHistory(state.view.webContents)
+      if (history && browserState[tabId]) upsertBrowserState(tabId, { currentUrl: browserState[tabId].currentUrl, history })
       try { state.frameStream.close() } catch { }
       try {
         if (!state.view.isDestroyed()) {
@@ -145,9 +287,21 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
       } catch { }
       views.delete(tabId)
     }
+    flushBrowserStateNow()
   }
 
-  app.once('before-quit', closeAllOverlayViews)
+  app.on('before-quit', closeAllOverlayViews)
+  // Tabs torn down while windows close may still schedule a write after before-quit
+  app.on('will-quit', () => { if (writeTimer) flushBrowserStateNow() })
+
+  // Tabs whose renderer was ended from the task manager, until their crash is reported
+  const endedByUser = new Set<string>()
+
+  // Tabs showing an error page, so the next navigation clears it exactly once
+  const tabsWithNavError = new Set<string>()
+
+  // Saved scroll/form state waiting for a restored tab's first load
+  const pendingPageState = new Map<string, SavedPageState>()
 
   function readSystemMemoryMB(): { freeMB: number; totalMB: number } | null {
     try {
@@ -169,15 +323,46 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
     return 'normal'
   }
 
+  const flagEmitters = new Map<string, () => void>()
+
+  // Blocked-request counters change per request; coalesce their flag updates
+  const FLAG_BATCH_MS = 250
+  const pendingFlagTabs = new Set<string>()
+  let flagBatchTimer: NodeJS.Timeout | null = null
+  const scheduleFlags = (tabId: string): void => {
+    pendingFlagTabs.add(tabId)
+    flagBatchTimer ??= setTimeout(() => {
+      flagBatchTimer = null
+      const tabIds = [...pendingFlagTabs]
+      pendingFlagTabs.clear()
+      for (const id of tabIds) flagEmitters.get(id)?.()
+    }, FLAG_BATCH_MS)
+  }
+
+  const tabIdForWebContents = (wc: WebContents | undefined): string | null => {
+    if (!wc) return null
+    for (const [tabId, state] of views) {
+      try { if (state.view.webContents.id === wc.id) return tabId } catch { }
+    }
+    return null
+  }
+
   function wireFlagsFor(tabId: string, wc: Electron.WebContents): void {
     const DEAD_FLAGS: Flags = {
       audible: false,
+      muted: false,
+      playingMedia: false,
       devtools: false,
       downloads: false,
       pinned: false,
       capturing: false,
+      blocked: 0,
+      shield: 'off',
     }
 
+    // Chromium reports play/pause but has no getter, so track it here
+    let playingMedia = false
+
     const snapshot = (): Flags => {
       try {
         if (!wc || (typeof wc.isDestroyed === 'function' && wc.isDestroyed())) {
@@ -187,12 +372,17 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
           typeof wc.isCurrentlyAudible === 'function' ? wc.isCurrentlyAudible() : false
         const devtools =
           typeof wc.isDevToolsOpened === 'function' ? wc.isDevToolsOpened() : false
+        const muted = typeof wc.isAudioMuted === 'function' ? wc.isAudioMuted() : false
         return {
           audible,
+          muted,
+          playingMedia,
           devtools,
-          downloads: false,
+          downloads: activeDownloadCount(tabId) > 0,
           pinned: false,
           capturing: false,
+          blocked: blockedCount(tabId),
+          shield: shieldStateFor(wc.getURL()),
         }
       } catch {
         return DEAD_FLAGS
@@ -207,25 +397,23 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
 
     const emit = (): void => send(snapshot())
 
+    const setPlaying = (playing: boolean): void => {
+      if (playingMedia === playing) return
+      playingMedia = playing
+      emit()
+    }
+
     try { wc.on('audio-state-changed', () => emit()) } catch { }
     try { wc.on('devtools-opened', () => emit()) } catch { }
     try { wc.on('devtools-closed', () => emit()) } catch { }
     try { wc.on('did-navigate-in-page', () => emit()) } catch { }
-    try { wc.on('did-navigate', () => emit()) } catch { }
+    try { wc.on('did-navigate', () => { playingMedia = false; emit() }) } catch { }
+    try { wc.on('media-started-playing', () => setPlaying(true)) } catch { /* ignore */ }
+    try { wc.on('media-paused', () => setPlaying(false)) } catch { /* ignore */ }
 
+    flagEmitters.set(tabId, emit)
     try {
-      const ses = wc.session
-      try { ses.setMaxListeners?.(0) } catch { }
-      if (ses && ses.listenerCount('will-download') === 0) {
-        ses.on('will-download', (_e, item, sourceWc) => {
-          try {
-            if (!sourceWc || sourceWc.id !== wc.id) return
-            const f = snapshot()
-            send({ ...f, downloads: true })
-            item.once('done', () => emit())
-          } catch { }
-        })
-      }
+      trackSessionDownloads(wc.session, tabIdForWebContents, sendNotice, (id) => flagEmitters.get(id)?.())
     } catch { }
 
     emit()
@@ -237,6 +425,9 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
         try { wc.removeAllListeners('devtools-closed') } catch { }
         try { wc.removeAllListeners('did-navigate-in-page') } catch { }
         try { wc.removeAllListeners('did-navigate') } catch { }
+        try { wc.removeAllListeners('media-started-playing') } catch { /* ignore */ }
+        try { wc.removeAllListeners('media-paused') } catch { /* ignore */ }
+        if (flagEmitters.get(tabId) === emit) flagEmitters.delete(tabId)
         try { send(DEAD_FLAGS) } catch { }
       })
     } catch { }
@@ -434,6 +625,109 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
     try { win.webContents.send('overlay-notice', n) } catch { }
   }
 
+  // The tab plus every other tab Chromium applies its zoom to
+  const zoomGroupOf = (tabId: string, state: ViewState): Array<[string, ViewState]> => {
+    const host = zoomHostOf(state.view.webContents.getURL())
+    const group: Array<[string, ViewState]> = [[tabId, state]]
+    if (!host) return group
+    for (const [otherId, other] of views) {
+      if (other === state || other.profileId !== state.profileId || other.view.webContents.isDestroyed()) continue
+      if (zoomHostOf(other.view.webContents.getURL()) === host) group.push([otherId, other])
+    }
+    return group
+  }
+
+  // Surfaces are laid out at lastBounds CSS pixels but rendered `surfaceScale`
+  // times larger; multiplying the page zoom by the same scale keeps the layout
+  // width unchanged. Chromium shares one zoom across the tab's zoom group, so
+  // the whole group gets one scale: the sharpest any member asks for, capped
+  // so no member's surface passes MAX_SURFACE_PX.
+  const applySurface = (tabId: string, state: ViewState): void => {
+    const wc = state.view.webContents
+    if (wc.isDestroyed()) return
+    const group = zoomGroupOf(tabId, state)
+    let wanted = 0
+    let cap = Infinity
+    for (const [, member] of group) {
+      wanted = Math.max(wanted, member.renderScale, member.captureScale)
+      cap = Math.min(cap, MAX_SURFACE_PX / Math.max(member.lastBounds.w, member.lastBounds.h))
+    }
+    const scale = Math.min(MAX_PAGE_ZOOM, Math.max(MIN_PAGE_ZOOM, state.zoomFactor * Math.min(wanted, cap))) / state.zoomFactor
+    for (const [, member] of group) {
+      member.surfaceScale = scale
+      const { w, h } = member.lastBounds
+      try { member.view.setContentSize(Math.max(1, Math.round(w * scale)), Math.max(1, Math.round(h * scale))) } catch { /* ignore */ }
+    }
+    try { wc.setZoomFactor(state.zoomFactor * scale) } catch { /* ignore */ }
+  }
+
+  // Runs a capture with the surface at least at device resolution, so a tab
+  // shrunk on the canvas doesn't hand back a low-resolution image
+  const withCaptureSurface = async <T>(tabId: string, state: ViewState, capture: () => Promise<T>): Promise<T> => {
+    const win = getWindow()
+    const dpr = win && !win.isDestroyed() ? screen.getDisplayMatching(win.getBounds()).scaleFactor : 1
+    const previous = state.captureScale
+    const before = state.surfaceScale
+    state.captureScale = Math.max(previous, 1, dpr)
+    applySurface(tabId, state)
+    try {
+      // Let the resized surface paint, but don't hang on a tab that isn't painting
+      if (state.surfaceScale !== before) {
+        await Promise.race([waitForPaint(state.view.webContents).catch(() => undefined), new Promise((r) => setTimeout(r, 250))])
+      }
+      return await capture()
+    } finally {
+      state.captureScale = previous
+      applySurface(tabId, state)
+    }
+  }
+
+  // Page zoom for a tab and the tabs sharing it; `persist` remembers it for the tab's origin
+  const applyZoom = (tabId: string, state: ViewState, factor: number, persist: boolean): number => {
+    const wc = state.view.webContents
+    if (wc.isDestroyed()) return DEFAULT_ZOOM
+    const next = clampZoom(factor)
+    const group = zoomGroupOf(tabId, state)
+    for (const [, member] of group) member.zoomFactor = next
+    applySurface(tabId, state)
+    if (persist) storeZoom(state.profileId, wc.getURL(), next)
+    for (const [id] of group) sendNotice({ kind: 'zoom-changed', tabId: id, zoomFactor: next })
+    return next
+  }
+
+  const restoreZoom = (tabId: string, state: ViewState): void => {
+    applyZoom(tabId, state, getStoredZoom(state.profileId, state.view.webContents.getURL()), false)
+  }
+
+  // Mute/volume live on the tab and are saved with it in browser-state.json
+  const setTabAudio = (tabId: string, state: ViewState, patch: Partial<TabAudio>): void => {
+    state.audio = { ...state.audio, ...patch }
+    applyTabAudio(state.view.webContents, state.audio, patch.volume !== undefined)
+    upsertBrowserState(tabId, {
+      currentUrl: browserState[tabId]?.currentUrl ?? state.navState.currentUrl,
+      muted: state.audio.muted,
+      volume: state.audio.volume,
+    })
+    flushBrowserState()
+    flagEmitters.get(tabId)?.()
+  }
+
+  const saveTabAsPdf = async (tabId: string, state: ViewState, options: Omit<PrintToPdfPayload, 'tabId'>): Promise<SavedFile> => {
+    const file = await printPageToPdf(state.view.webContents, options)
+    sendNotice({ kind: 'pdf-saved', tabId, file })
+    return file
+  }
+
+  const muteOtherTabs = (keepTabId: string | null): string[] => {
+    const muted: string[] = []
+    for (const [id, other] of views) {
+      if (id === keepTabId || other.audio.muted) continue
+      setTabAudio(id, other, { muted: true })
+      muted.push(id)
+    }
+    return muted
+  }
+
   {
     let lastLevel: PressureLevel | null = null
     const TICK_MS = 3000
@@ -521,7 +815,18 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
 
   // -------------------- IPC handlers ---------------------------------------
 
-  ipcMain.handle('overlay:create-tab', async (_e, payload?: { url?: string; shapeId?: string; restore?: boolean }): Promise<CreateTabResponse> => {
+  registerProfileIPC(sendNotice)
+  registerDownloadIPC(sendNotice)
+  registerPermissionIPC()
+  registerSettingsIPC(sendNotice)
+  registerHistoryIPC(sendNotice)
+  registerBookmarkIPC(sendNotice)
+  registerSearchEngineIPC(sendNotice)
+  registerContentBlockingIPC(sendNotice, () => {
+    for (const emit of flagEmitters.values()) emit()
+  })
+
+  ipcMain.handle('overlay:create-tab', async (_e, payload?: { url?: string; shapeId?: string; restore?: boolean; profile?: string }): Promise<CreateTabResponse> => {
     const win = getWindow()
     if (!win || win.isDestroyed()) return { ok: false, error: 'No window' }
     if (views.size >= MAX_VIEWS) {
@@ -541,6 +846,8 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
 
     if (views.has(tabId)) return { ok: true as const, tabId }
 
+    const profileId = getProfile(payload?.profile ?? browserState[tabId]?.profile)?.id ?? DEFAULT_PROFILE_ID
+
     let state: ViewState | undefined
     try {
       const view = new BrowserWindow({
@@ -548,8 +855,9 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
         width: 1280,
         height: 720,
         webPreferences: {
-          partition: OVERLAY_PARTITION,
-          offscreen: { useSharedTexture: true },
+          partition: partitionForProfile(profileId),
+          // One surface pixel per DIP; resolution comes from the renderer's render scale
+          offscreen: { useSharedTexture: frameMode === 'shared-texture', deviceScaleFactor: 1 },
           backgroundThrottling: false,
           contextIsolation: true,
           sandbox: true,
@@ -559,73 +867,48 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
 
    
       view.webContents.startPainting()
-      view.webContents.setFrameRate(30)
-      const reassertZoom = (): void => {
-        try { view.webContents.setZoomFactor(1) } catch { }
-      }
-      reassertZoom()
+      view.webContents.setFrameRate(DEFAULT_FRAME_RATE)
+      // Pinch (visual) zoom stays locked; page zoom is restored per origin on navigation
       try { view.webContents.setVisualZoomLevelLimits(1, 1) } catch { }
       wireFlagsFor(tabId, view.webContents)
       view.webContents.setUserAgent(BROWSER_USER_AGENT)
 
-      const frameStream = new SharedTextureStream(async (importedSharedTexture) => {
-        const win = getWindow()
-        if (!win || win.isDestroyed()) return
-        await sharedTexture.sendSharedTexture({
-          frame: win.webContents.mainFrame,
-          importedSharedTexture: importedSharedTexture as never,
-        }, tabId)
-      })
-
-      // ── Paint handler: GPU → shared texture → renderer ──────────────────
-      view.webContents.on('paint', async (e) => {
-        const texture = (e as any).texture
-        if (!texture) return
-        const win = getWindow()
-        if (!win || win.isDestroyed()) {
-          texture.release()
-          return
-        }
-        frameStream.enqueue(texture.textureInfo, () => texture.release())
-      })
-
-      // Permissions
-      view.webContents.session.setPermissionRequestHandler(
-        async (_wc, permission, callback, details) => {
-          try {
-            if (permission === 'clipboard-read' || permission === 'clipboard-sanitized-write') {
-              callback(true); return
-            }
-            if (permission === 'fullscreen') {
-              callback(true); return
-            }
-            if (permission === 'media') {
-              const which =
-                (typeof (details as any).mediaTypes !== 'undefined' && Array.isArray((details as any).mediaTypes))
-                  ? (details as any).mediaTypes.join(' & ')
-                  : 'media devices'
-              const res = await dialog.showMessageBox({
-                type: 'question',
-                buttons: ['Allow', 'Deny'],
-                defaultId: 1,
-                cancelId: 1,
-                message: `This site wants to access your ${which}.`,
-              })
-              callback(res.response === 0); return
-            }
-            callback(false)
-          } catch (err) {
-            console.error('[overlay] Permission handler error:', err)
-            callback(false)
+      let frameStream: SharedTextureStream | SoftwareFrameStream
+      if (frameMode === 'shared-texture') {
+        const textureStream = new SharedTextureStream(async (importedSharedTexture) => {
+          const win = getWindow()
+          if (!win || win.isDestroyed()) return
+          await sharedTexture.sendSharedTexture({
+            frame: win.webContents.mainFrame,
+            importedSharedTexture: importedSharedTexture as never,
+          }, tabId)
+        })
+        frameStream = textureStream
+
+        // ── Paint handler: GPU → shared texture → renderer ──────────────────
+        view.webContents.on('paint', async (e) => {
+          const texture = (e as any).texture
+          if (!texture) return
+          const win = getWindow()
+          if (!win || win.isDestroyed()) {
+            texture.release()
+            return
           }
-        }
-      )
+          textureStream.enqueue(texture.textureInfo, () => texture.release())
+        })
+      } else {
+        const bitmapStream = new SoftwareFrameStream(tabId, () => framePort)
+        frameStream = bitmapStream
 
-      view.webContents.session.setPermissionCheckHandler((_wc, permission) => {
-        return permission === 'clipboard-read' ||
-          permission === 'clipboard-sanitized-write' ||
-          permission === 'fullscreen'
-      })
+        // ── Paint handler: CPU bitmap → MessagePort → renderer ──────────────
+        view.webContents.on('paint', (_e, dirtyRect, image) => {
+          bitmapStream.enqueue(image, dirtyRect)
+        })
+      }
+
+      // Permissions: stored per profile + origin, prompted inline in the shape
+      attachPermissionHandlers(view.webContents.session, profileId, tabIdForWebContents, sendNotice)
+      attachContentBlocker(view.webContents.session, tabIdForWebContents, scheduleFlags)
 
       // DisplayMedia
       view.webContents.session.setDisplayMediaRequestHandler(async (_request, callback) => {
@@ -672,9 +955,26 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
         view,
         lastBounds: { w: 1280, h: 720 },
         frameStream,
+        profileId,
+        audio: {
+          muted: browserState[tabId]?.muted ?? false,
+          volume: browserState[tabId]?.volume ?? DEFAULT_VOLUME,
+          gain: 1,
+          pan: 0,
+        },
+        frameRate: DEFAULT_FRAME_RATE,
+        zoomFactor: DEFAULT_ZOOM,
+        renderScale: 1,
+        surfaceScale: 1,
+        captureScale: 0,
         navState: { currentUrl: savedUrl, canGoBack: false, canGoForward: false, title: '' },
       }
       views.set(tabId, state)
+      applyTabAudio(view.webContents, state.audio)
+      upsertBrowserState(tabId, {
+        currentUrl: browserState[tabId]?.currentUrl ?? savedUrl,
+        profile: profileId,
+      })
 
       const emitNavHint = (tabId: string, url?: string): void => {
         const win = getWindow()
@@ -689,26 +989,30 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
       }
 
       view.webContents.on('dom-ready', () => {
-        reassertZoom()
-        if (state) S.updateNav(state)
+        if (!state) return
+        S.updateNav(state)
+        applyMediaAudio(view.webContents, state.audio)
+        applyCosmeticFilters(view.webContents)
       })
 
       view.webContents.on('did-navigate', () => {
-        reassertZoom()
         if (!state) return
+        restoreZoom(tabId, state)
         S.updateNav(state)
         const currentUrl: string = view.webContents.getURL()
         upsertBrowserState(tabId, {
           currentUrl,
           lastInteraction: Date.now(),
           lifecycle: 'live',
+          history: captureHistory(view.webContents),
         })
         flushBrowserState()
+        // The new document's title arrives later via page-title-updated
+        recordVisit({ url: currentUrl, title: '', tabId, profile: state.profileId })
         emitNavHint(tabId)
       })
 
-      view.webContents.on('did-navigate-in-page', () => {
-        reassertZoom()
+      view.webContents.on('did-navigate-in-page', (_e, _url, isMainFrame) => {
         if (!state) return
         S.updateNav(state)
         const currentUrl: string = view.webContents.getURL()
@@ -716,8 +1020,10 @@ export function setupOverlayIPC(getWindow: () => BrowserWindow | null): void {
           currentUrl,
           lastInteraction: Date.now(),
           lifecycle: 'live',
+          history: captureHistory(view.webContents),
         })
         flushBrowserState()
+        if (isMainFrame) recordVisit({ url: currentUrl, title: state.navState.title, tabId, profile: state.profileId })
         emitNavHint(tabId)
         emitNavFinished(tabId)
       })
@@ -734,19 +1040,60 @@ view.webContents.on('will-navigate', (event, url) => {
   shell.openExternal(url).catch(console.error)
 })
       view.webContents.on('page-title-updated', () => {
-        if (state) S.updateNav(state)
+        if (state) {
+          S.updateNav(state)
+          updateVisitTitle(tabId, state.navState.currentUrl, state.navState.title)
+        }
         emitNavHint(tabId)
       })
 
-      view.webContents.on('did-start-navigation', (_e, _url: string, _isInPlace: boolean, isMainFrame: boolean) => {
+      view.webContents.on('found-in-page', (_e, result) => {
+        sendNotice({
+          kind: 'find-result',
+          tabId,
+          result: {
+            requestId: result.requestId,
+            activeMatchOrdinal: result.activeMatchOrdinal,
+            matches: result.matches,
+            finalUpdate: result.finalUpdate,
+          },
+        })
+      })
+
+      view.webContents.on('did-start-navigation', (_e, _url: string, isInPlace: boolean, isMainFrame: boolean) => {
         if (!state || !isMainFrame || view.webContents.isDestroyed()) return
+        if (!isInPlace && blockedCount(tabId) > 0) {
+          resetBlockedCount(tabId)
+          scheduleFlags(tabId)
+        }
+        if (!isInPlace && tabsWithNavError.delete(tabId)) sendNotice({ kind: 'nav-error', tabId, error: null })
         emitNavHint(tabId)
       })
 
-      view.webContents.on('render-process-gone', () => {
-        sendNotice({ kind: 'tab-crashed', tabId })
+      view.webContents.on('render-process-gone', (_e, details) => {
+        // Views torn down on purpose are not crashes
+        if (!state || destroying.has(tabId) || views.get(tabId) !== state) return
+        const crash: TabCrashInfo = {
+          reason: details.reason,
+          exitCode: details.exitCode,
+          at: Date.now(),
+          endedByUser: endedByUser.delete(tabId),
+        }
+        console.warn(`[overlay] Renderer for ${tabId} gone: ${crash.reason} (exit code ${crash.exitCode})`)
+        const history = captureHistory(view.webContents)
+        if (history && browserState[tabId]) {
+          upsertBrowserState(tabId, { currentUrl: browserState[tabId].currentUrl, history })
+          flushBrowserState()
+        }
         views.delete(tabId)
+        resetBlockedCount(tabId)
         clearForChild(tabId)
+        try { state.frameStream.close() } catch { /* ignore */ }
+        // Only the browser-side window is left; drop it outside the emitting handler
+        setImmediate(() => {
+          try { if (!view.isDestroyed()) view.destroy() } catch { /* ignore */ }
+        })
+        sendNotice({ kind: 'tab-crashed', tabId, crash })
       })
 
       view.webContents.on('before-input-event', (event, input: Input) => {
@@ -756,7 +1103,8 @@ view.webContents.on('will-navigate', (event, url) => {
           const key = (input.key || '').toLowerCase()
           if (mod && (key === '+' || key === '=' || key === '-' || key === '0')) {
             event.preventDefault()
-            reassertZoom()
+            const next = key === '0' ? DEFAULT_ZOOM : stepZoom(state.zoomFactor, key === '-' ? -1 : 1)
+            applyZoom(tabId, state, next, true)
             return
           }
           if ((key === 'i' && mod && input.shift) || key === 'f12') {
@@ -837,14 +1185,21 @@ view.webContents.on('will-navigate', (event, url) => {
       })
 
       view.webContents.on('did-finish-load', () => {
-        reassertZoom()
         if (!state || view.webContents.isDestroyed()) return
+        const saved = pendingPageState.get(tabId)
+        if (saved) {
+          // One shot: a later load of the same URL starts fresh
+          pendingPageState.delete(tabId)
+          if (browserState[tabId]) delete browserState[tabId].pageState
+          flushBrowserState()
+          applyPageState(view.webContents, saved)
+        }
         emitNavHint(tabId)
         emitNavFinished(tabId)
+        void discoverOpenSearch(view.webContents)
       })
 
       view.webContents.on('did-stop-loading', () => {
-        reassertZoom()
         if (!state || view.webContents.isDestroyed()) return
         emitNavHint(tabId)
         emitNavFinished(tabId)
@@ -856,10 +1211,14 @@ view.webContents.on('will-navigate', (event, url) => {
         sendNotice({ kind: 'cursor', tabId, cursor: type })
       })
 
-      view.webContents.on('did-fail-load', (_e, _code, _desc, _url, isMainFrame) => {
+      view.webContents.on('did-fail-load', (_e, code, desc, url, isMainFrame) => {
         if (!state || !isMainFrame || view.webContents.isDestroyed()) return
         emitNavHint(tabId)
         emitNavFinished(tabId)
+        const error = navErrorFor(code, desc, url)
+        if (!error) return
+        tabsWithNavError.add(tabId)
+        sendNotice({ kind: 'nav-error', tabId, error })
       })
 
       view.webContents.on('context-menu', (_event, params) => {
@@ -895,7 +1254,7 @@ view.webContents.on('will-navigate', (event, url) => {
           const shortText = selectionText.length > 20 ? `${selectionText.substring(0, 20)}...` : selectionText
           menuItems.push(
             { label: 'Copy', click: () => view.webContents.copy() },
-            { label: `Search "${shortText}"`, click: () => openFromContextMenu(tabId, `https://www.google.com/search?q=${encodeURIComponent(selectionText)}`) },
+            { label: `Search ${getDefaultEngine().name} for "${shortText}"`, click: () => openFromContextMenu(tabId, searchUrlFor(selectionText)) },
             { type: 'separator' },
           )
         }
@@ -912,6 +1271,17 @@ view.webContents.on('will-navigate', (event, url) => {
           { label: 'Forward', click: () => { if (view.webContents.navigationHistory.canGoForward()) view.webContents.navigationHistory.goForward() }, enabled: view.webContents.navigationHistory.canGoForward() },
           { label: 'Reload', click: () => view.webContents.reload() },
           { type: 'separator' },
+          { label: state?.audio.muted ? 'Unmute Tab' : 'Mute Tab', click: () => { if (state) setTabAudio(tabId, state, { muted: !state.audio.muted }) } },
+          { label: 'Mute Other Tabs', click: () => { muteOtherTabs(tabId) } },
+          { type: 'separator' },
+          {
+            label: 'Save Page as PDF',
+            click: () => {
+              if (!state) return
+              saveTabAsPdf(tabId, state, {}).catch((err) => console.error('[overlay] Print to PDF failed:', err))
+            },
+          },
+          { type: 'separator' },
           { label: 'Inspect Element', click: () => view.webContents.inspectElement(params.x, params.y) },
           { type: 'separator' },
           { label: 'Copy Page URL', click: () => require('electron').clipboard.writeText(pageURL) },
@@ -920,7 +1290,19 @@ view.webContents.on('will-navigate', (event, url) => {
         Menu.buildFromTemplate(typedMenu).popup({ window: getWindow()! })
       })
 
-      void view.webContents.loadURL(savedUrl).catch(console.error)
+      // Discarded, crashed and restarted tabs get their back/forward list back
+      const history = payload?.restore === true ? browserState[tabId]?.history : undefined
+      const pageState = payload?.restore === true ? browserState[tabId]?.pageState : undefined
+      if (pageState) pendingPageState.set(tabId, pageState)
+      if (history && history.entries.length > 0) {
+        const index = Math.min(Math.max(0, history.index), history.entries.length - 1)
+        view.webContents.navigationHistory.restore({ entries: history.entries, index }).catch((err) => {
+          console.error(`[overlay] Could not restore history for ${tabId}:`, err)
+          if (!view.webContents.isDestroyed()) void view.webContents.loadURL(savedUrl).catch(console.error)
+        })
+      } else {
+        void view.webContents.loadURL(savedUrl).catch(console.error)
+      }
 
       return { ok: true as const, tabId }
     } catch (err) {
@@ -929,6 +1311,8 @@ view.webContents.on('will-navigate', (event, url) => {
     }
   })
 
+  ipcMain.handle('overlay:get-frame-mode', (): FrameMode => frameMode)
+
   ipcMain.handle('overlay:popup-ack', (_e, { openerTabId, url, childTabId }: { openerTabId: string; url: string; childTabId?: string }) => {
     markMaterialized(openerTabId, url, childTabId)
   })
@@ -942,7 +1326,7 @@ view.webContents.on('will-navigate', (event, url) => {
       const h = Math.max(1, Math.ceil(rect.height))
       if (state.lastBounds.w === w && state.lastBounds.h === h) continue
       state.lastBounds = { w, h }
-      try { state.view.setContentSize(w, h) } catch { }
+      applySurface(tabId, state)
     }
   })
 
@@ -960,7 +1344,7 @@ view.webContents.on('will-navigate', (event, url) => {
         state.view.webContents.focus()
       }
     } catch { }
-    try { state.view.webContents.sendInputEvent(event) } catch { }
+    try { state.view.webContents.sendInputEvent(toSurfaceInput(event, state.surfaceScale)) } catch { }
   })
 
   ipcMain.handle('overlay:show', async (_e, { tabId }: { tabId: string }): Promise<void> => {
@@ -997,24 +1381,22 @@ view.webContents.on('will-navigate', (event, url) => {
       lifecycle: data.lifecycle ?? 'live',
       hasScreenshot: data.hasScreenshot ?? false,
       thumbPath: data.thumbPath ?? null,
+      thumbLevels: data.thumbLevels ?? [],
+      profile: data.profile ?? DEFAULT_PROFILE_ID,
     }));
     return { ok: true as const, tabs };
   })
 
-  ipcMain.handle('overlay:save-thumb', async (_event, payload: { tabId: string; url: string; dataUrlWebp: string }): Promise<{ ok: true; thumbPath: string } | { ok: false }> => {
+  ipcMain.handle('overlay:save-thumb', async (_event, payload: { tabId: string; url: string; levels: ThumbLevel[] }): Promise<{ ok: true; thumbPath: string } | { ok: false }> => {
     try {
       ensureThumbsDir();
-      const commaIdx = payload.dataUrlWebp.indexOf(',');
-      if (commaIdx === -1) return { ok: false };
-      const b64 = payload.dataUrlWebp.slice(commaIdx + 1);
-      const buf = Buffer.from(b64, 'base64');
       const safeId = payload.tabId.replace(/[^a-zA-Z0-9_-]/g, '_');
-      const fileName = `${safeId}.webp`;
-      const fullPath = path.join(THUMBS_DIR, fileName);
-      fs.writeFileSync(fullPath, buf);
+      const levels = writeThumbLevels(THUMBS_DIR, safeId, Array.isArray(payload.levels) ? payload.levels : []);
+      if (levels.length === 0) return { ok: false };
+      const fullPath = levels[levels.length - 1].path;
       const prev = browserState[payload.tabId];
-      if (prev?.thumbPath && prev.thumbPath !== fullPath) {
-        deleteThumbFile(prev.thumbPath)
+      for (const file of thumbFilesOf(prev)) {
+        if (!levels.some((level) => level.path === file)) deleteThumbFile(file)
       }
       upsertBrowserState(payload.tabId, {
         currentUrl: prev?.currentUrl ?? payload.url,
@@ -1022,6 +1404,7 @@ view.webContents.on('will-navigate', (event, url) => {
         lifecycle: prev?.lifecycle ?? 'frozen',
         hasScreenshot: true,
         thumbPath: fullPath,
+        thumbLevels: levels,
       });
       flushBrowserState();
       return { ok: true, thumbPath: fullPath };
@@ -1030,6 +1413,17 @@ view.webContents.on('will-navigate', (event, url) => {
     }
   })
 
+  // Posters restored at startup are read one level at a time, as the canvas draws them
+  ipcMain.handle('overlay:read-thumb', async (_event, payload: { path: string }): Promise<ReadThumbResult> => {
+    const file = path.resolve(String(payload?.path ?? ''));
+    if (path.dirname(file) !== path.resolve(THUMBS_DIR)) return { ok: false, error: 'Not a tab poster' };
+    try {
+      return { ok: true, dataUrl: await readThumbLevel(file) };
+    } catch {
+      return { ok: false, error: 'Poster is missing' };
+    }
+  })
+
   ipcMain.handle('overlay:navigate', async (_e, { tabId, url }: { tabId: string; url: string }): Promise<SimpleResponse> => {
     const { state } = S.resolve(tabId)
     if (!state) return { ok: false, error: 'No view' }
@@ -1080,24 +1474,46 @@ if (isGoogleAuthUrl(target)) {
     flushBrowserState()
   })
 
-  ipcMain.handle('overlay:snapshot', async (_e, payload: { tabId: string }): Promise<{ ok: true; dataUrl: string; width: number; height: number } | { ok: false; error: string }> => {
+  ipcMain.handle('overlay:snapshot', async (_e, payload: SnapshotRequest): Promise<SnapshotResult> => {
     const { state } = S.resolve(payload?.tabId)
     if (!state) return { ok: false, error: 'no-view' }
+    let levels = state.lastThumbs
     try {
-      const image = await state.view.webContents.capturePage()
-      const size = image.getSize()
-      const dataUrl = image.toDataURL()
-      state.lastFrame = dataUrl
-      return { ok: true, dataUrl, width: size.width, height: size.height }
-    } catch {
-      if (state.lastFrame) return { ok: true, dataUrl: state.lastFrame, width: state.lastBounds.w, height: state.lastBounds.h }
-      return { ok: false, error: 'not-ready' }
+      const image = await withCaptureSurface(payload.tabId, state, () => state.view.webContents.capturePage())
+      levels = await encodeThumbLevels(image, payload)
+      state.lastThumbs = levels
+    } catch { /* fall back to the previous capture */ }
+    if (!levels || levels.length === 0) return { ok: false, error: 'not-ready' }
+    const { dataUrl, width, height } = levels[levels.length - 1]
+    return { ok: true, dataUrl, width, height, levels }
+  })
+
+  ipcMain.handle('overlay:capture-full-page', async (_e, payload: { tabId: string }): Promise<FullPageCaptureResult> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'no-view' }
+    try {
+      const wc = state.view.webContents
+      const { data, width, height, mimeType } = await withCaptureSurface(payload.tabId, state, () => captureFullPage(wc))
+      return {
+        ok: true,
+        dataUrl: `data:${mimeType};base64,${data.toString('base64')}`,
+        mimeType,
+        width,
+        height,
+        url: wc.getURL(),
+        title: wc.getTitle(),
+        capturedAt: Date.now(),
+      }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'capture-failed' }
     }
   })
 
   ipcMain.handle('overlay:destroy', async (_e, { tabId, discard = false }: { tabId: string; discard?: boolean }): Promise<void> => {
     if (destroying.has(tabId)) { console.warn(`[overlay] destroy already in progress for ${tabId}`); return; }
     destroying.add(tabId);
+    endedByUser.delete(tabId);
+    pendingPageState.delete(tabId);
     try {
       const resolved = S.resolve(tabId); const state = resolved?.state;
       if (!state) { console.warn(`[overlay] destroy: no state for ${tabId} (already removed)`); return; }
@@ -1106,24 +1522,30 @@ if (isGoogleAuthUrl(target)) {
 
       const view = state.view;
       const wc: WebContents | undefined = view?.webContents;
+      // Read while the page is still intact; the view stays registered until it's done
+      const pageState = discard && wc ? await capturePageState(wc) : null;
 
       try {
         views.delete(tabId);
-        if (!discard) { clearForChild(tabId); clearForOpener?.(tabId); }
+        resetBlockedCount(tabId);
+        if (!discard) { clearForChild(tabId); clearForOpener?.(tabId); tabsWithNavError.delete(tabId); }
       } catch (e) { console.warn(`[overlay] Error clearing maps for ${tabId}:`, e); }
 
       try { state.frameStream.close() } catch { }
 
       if (!discard) {
-        const thumbPath = browserState[tabId]?.thumbPath
-        deleteThumbFile(thumbPath)
+        for (const file of thumbFilesOf(browserState[tabId])) deleteThumbFile(file)
         try { delete browserState[tabId]; } catch (e) { console.warn(`[overlay] Error deleting persisted state for ${tabId}:`, e); }
       } else {
         upsertBrowserState(tabId, {
           currentUrl: browserState[tabId]?.currentUrl ?? state.navState.currentUrl ?? 'about:blank',
           lastInteraction: Date.now(),
           lifecycle: 'discarded',
+          history: wc && !wc.isDestroyed() ? captureHistory(wc) : undefined,
         });
+        // Replace, never keep, an older capture
+        if (pageState) browserState[tabId].pageState = pageState;
+        else delete browserState[tabId].pageState;
       }
 
       try { if (wc && !wc.isDestroyed()) { wc.stop(); wc.setAudioMuted(true); } } catch (e) { console.warn(`[overlay] Error stopping webcontents for ${tabId}:`, e); }
@@ -1185,6 +1607,184 @@ if (isGoogleAuthUrl(target)) {
     catch { return { ok: false, error: 'Reload failed' } }
   })
 
+  ipcMain.handle('overlay:find-in-page', async (_e, payload: FindInPagePayload): Promise<{ ok: true; requestId: number } | Err> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    const text = payload.text ?? ''
+    if (!text) {
+      try { state.view.webContents.stopFindInPage('clearSelection') } catch { /* ignore */ }
+      return { ok: false, error: 'Empty query' }
+    }
+    if (typeof payload.findNext !== 'boolean') return { ok: false, error: 'findNext is required' }
+    try {
+      const requestId = state.view.webContents.findInPage(text, {
+        forward: payload.forward ?? true,
+        findNext: payload.findNext,
+        matchCase: payload.matchCase ?? false,
+      })
+      return { ok: true, requestId }
+    } catch {
+      return { ok: false, error: 'Find failed' }
+    }
+  })
+
+  ipcMain.handle('overlay:stop-find-in-page', async (_e, payload: StopFindPayload): Promise<SimpleResponse> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    try { state.view.webContents.stopFindInPage(payload.action ?? 'clearSelection'); return { ok: true } }
+    catch { return { ok: false, error: 'Stop find failed' } }
+  })
+
+  ipcMain.handle('overlay:set-zoom', async (_e, payload: SetZoomPayload): Promise<{ ok: true; zoomFactor: number } | Err> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    const target = 'step' in payload ? stepZoom(state.zoomFactor, payload.step) : payload.zoomFactor
+    return { ok: true, zoomFactor: applyZoom(payload.tabId, state, target, true) }
+  })
+
+  ipcMain.handle('overlay:get-zoom', async (_e, payload: { tabId: string }): Promise<{ ok: true; zoomFactor: number } | Err> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    return { ok: true, zoomFactor: state.zoomFactor }
+  })
+
+  ipcMain.handle('overlay:set-muted', async (_e, payload: { tabId: string; muted: boolean }): Promise<SimpleResponse> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    setTabAudio(payload.tabId, state, { muted: !!payload.muted })
+    return { ok: true }
+  })
+
+  ipcMain.handle('overlay:set-volume', async (_e, payload: { tabId: string; volume: number }): Promise<SimpleResponse> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    setTabAudio(payload.tabId, state, { volume: clampVolume(payload.volume) })
+    return { ok: true }
+  })
+
+  ipcMain.handle('overlay:mute-other-tabs', async (_e, payload?: { tabId?: string | null }) => {
+    return { ok: true as const, tabIds: muteOtherTabs(payload?.tabId ?? null) }
+  })
+
+  ipcMain.handle('overlay:toggle-shield', async (_e, payload: { tabId: string }): Promise<{ ok: true; shield: ShieldState } | Err> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    const wc = state.view.webContents
+    const url = wc.getURL()
+    if (shieldStateFor(url) === 'off') return { ok: false, error: 'Content blocking is off for this page' }
+    const host = new URL(url).hostname
+    setSiteAllowed(host, !isSiteAllowed(host))
+    // Blocked resources only come back with a fresh load
+    resetBlockedCount(payload.tabId)
+    wc.reload()
+    for (const emit of flagEmitters.values()) emit()
+    sendNotice({ kind: 'content-blocking-changed', status: getContentBlockingStatus() })
+    return { ok: true, shield: shieldStateFor(url) }
+  })
+
+  ipcMain.handle('overlay:print-to-pdf', async (_e, payload: PrintToPdfPayload): Promise<{ ok: true; file: SavedFile } | Err> => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state) return { ok: false, error: 'No view' }
+    try {
+      const { tabId, ...options } = payload
+      return { ok: true, file: await saveTabAsPdf(tabId, state, options) }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'Print failed' }
+    }
+  })
+
+  ipcMain.handle('overlay:set-spatial-audio', async (_e, entries: SpatialAudioEntry[] | null): Promise<SimpleResponse> => {
+    if (!entries) {
+      for (const state of views.values()) {
+        if (state.audio.gain === 1 && state.audio.pan === 0) continue
+        state.audio = { ...state.audio, gain: 1, pan: 0 }
+        applyMediaAudio(state.view.webContents, state.audio, true)
+      }
+      return { ok: true }
+    }
+    for (const entry of entries) {
+      const state = views.get(entry.tabId)
+      if (!state) continue
+      state.audio = { ...state.audio, gain: clampVolume(entry.gain), pan: clampPan(entry.pan) }
+      applyMediaAudio(state.view.webContents, state.audio, true)
+    }
+    return { ok: true }
+  })
+
+  ipcMain.handle('overlay:set-frame-rate', (_e, entries: FrameRateEntry[]): SimpleResponse => {
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const state = views.get(entry.tabId)
+      if (!state || state.view.webContents.isDestroyed()) continue
+      const fps = Math.round(Math.min(MAX_FRAME_RATE, Math.max(1, Number(entry.fps) || DEFAULT_FRAME_RATE)))
+      if (fps === state.frameRate) continue
+      state.view.webContents.setFrameRate(fps)
+      state.frameRate = fps
+    }
+    return { ok: true }
+  })
+
+  ipcMain.handle('overlay:set-render-scale', (_e, entries: RenderScaleEntry[]): SimpleResponse => {
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const state = views.get(entry.tabId)
+      if (!state || state.view.webContents.isDestroyed()) continue
+      const scale = Number(entry.scale)
+      if (!Number.isFinite(scale) || scale <= 0 || scale === state.renderScale) continue
+      state.renderScale = scale
+      applySurface(entry.tabId, state)
+    }
+    return { ok: true }
+  })
+
+  ipcMain.handle('overlay:get-metrics', (): MetricsResult => {
+    try {
+      const byPid = new Map(app.getAppMetrics().map((m) => [m.pid, m]))
+      const tabPids = new Set<number>()
+      const tabs: TabProcessMetrics[] = []
+      for (const [tabId, state] of views) {
+        const wc = state.view.webContents
+        if (wc.isDestroyed()) continue
+        const pid = wc.getOSProcessId()
+        const metric = byPid.get(pid)
+        tabPids.add(pid)
+        tabs.push({
+          tabId,
+          pid,
+          cpu: metric?.cpu.percentCPUUsage ?? 0,
+          memoryKB: metric?.memory.workingSetSize ?? 0,
+          frameRate: state.frameRate,
+        })
+      }
+      const processes: AppProcessMetrics[] = []
+      for (const m of byPid.values()) {
+        if (tabPids.has(m.pid)) continue
+        processes.push({
+          pid: m.pid,
+          type: m.type,
+          name: m.name ?? m.serviceName ?? null,
+          cpu: m.cpu.percentCPUUsage,
+          memoryKB: m.memory.workingSetSize,
+        })
+      }
+      return { ok: true, tabs, processes }
+    } catch {
+      return { ok: false, error: 'Metrics unavailable' }
+    }
+  })
+
+  // The crash is reported through render-process-gone like any other, flagged
+  // so the renderer shows the sad tab without reloading it
+  ipcMain.handle('overlay:end-tab-process', (_e, payload: { tabId: string }): SimpleResponse => {
+    const { state } = S.resolve(payload?.tabId)
+    if (!state || state.view.webContents.isDestroyed()) return { ok: false, error: 'No view' }
+    endedByUser.add(payload.tabId)
+    try { state.view.webContents.forcefullyCrashRenderer() }
+    catch {
+      endedByUser.delete(payload.tabId)
+      return { ok: false, error: 'End process failed' }
+    }
+    return { ok: true }
+  })
+
   ipcMain.handle('overlay:get-navigation-state', async (_e, payload: { tabId: string }): Promise<GetNavStateResponse | Err> => {
     const tabId = payload?.tabId
     const state = tabId ? views.get(tabId) : undefined
@@ -0,0 +1,138 @@
+import { app } from 'electron'
+import type { WebContents } from 'electron'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import sharp from 'sharp'
+import type { PdfMargins, PrintToPdfPayload, SavedFile } from '../types/overlay'
+
+// Page archives. PDFs are written under userData so file cards on the canvas
+// keep working after the downloads folder is tidied; full-page screenshots go
+// straight back to the renderer as image data.
+
+const CAPTURES_DIR = path.join(app.getPath('userData'), 'captures')
+
+const MARGIN_PRESETS: Record<Exclude<PdfMargins, object>, number> = {
+  default: 0.4,
+  minimum: 0.1,
+  none: 0,
+}
+
+/** `<title> <yyyy-mm-dd hh-mm-ss>.<ext>` inside the captures folder. */
+export function captureFilePath(title: string, ext: string): string {
+  fs.mkdirSync(CAPTURES_DIR, { recursive: true })
+  const stamp = new Date().toISOString().slice(0, 19).replace('T', ' ').replace(/:/g, '-')
+  const base = (title.replace(/[\\/:*?"<>|\r\n\t]+/g, ' ').trim() || 'page').slice(0, 80)
+  let candidate = path.join(CAPTURES_DIR, `${base} ${stamp}.${ext}`)
+  for (let n = 2; fs.existsSync(candidate); n++) {
+    candidate = path.join(CAPTURES_DIR, `${base} ${stamp} (${n}).${ext}`)
+  }
+  return candidate
+}
+
+function toMargins(margins: PdfMargins | undefined): Electron.PrintToPDFOptions['margins'] {
+  if (margins && typeof margins === 'object') return margins
+  const inches = MARGIN_PRESETS[margins ?? 'default'] ?? MARGIN_PRESETS.default
+  return { top: inches, bottom: inches, left: inches, right: inches }
+}
+
+export async function printPageToPdf(wc: WebContents, options: Omit<PrintToPdfPayload, 'tabId'>): Promise<SavedFile> {
+  const data = await wc.printToPDF({
+    pageSize: options.pageSize ?? 'A4',
+    landscape: options.landscape ?? false,
+    printBackground: options.printBackground ?? true,
+    margins: toMargins(options.margins),
+  })
+  const filePath = captureFilePath(wc.getTitle() || new URL(wc.getURL()).hostname, 'pdf')
+  await fs.promises.writeFile(filePath, data)
+  return {
+    name: path.basename(filePath),
+    filePath,
+    mimeType: 'application/pdf',
+    size: data.length,
+    sourceUrl: wc.getURL(),
+  }
+}
+
+// Very tall pages are cut off here so the image asset stays a sane size in
+// the canvas store.
+const MAX_CAPTURE_HEIGHT = 16000
+const FULL_PAGE_JPEG_QUALITY = 85
+
+type PageMetrics = { scrollHeight: number; viewportW: number; viewportH: number; scrollX: number; scrollY: number }
+
+export const waitForPaint = (wc: WebContents): Promise<unknown> =>
+  wc.executeJavaScript('new Promise((r) => requestAnimationFrame(() => requestAnimationFrame(() => r(true))))')
+
+/**
+ * Scrolls the page one viewport at a time, grabbing each screen with
+ * `capturePage()`, and stitches the strips with sharp. Fixed and sticky
+ * elements are hidden after the first strip so headers are not repeated.
+ */
+export async function captureFullPage(wc: WebContents): Promise<{ data: Buffer; width: number; height: number; mimeType: string }> {
+  const metrics = (await wc.executeJavaScript(`({
+    scrollHeight: Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0),
+    viewportW: window.innerWidth,
+    viewportH: window.innerHeight,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+  })`)) as PageMetrics
+
+  const wasPainting = wc.isPainting()
+  if (!wasPainting) wc.startPainting()
+
+  const strips: Array<{ input: Buffer; top: number }> = []
+  let width = 0
+  let height = 0
+  try {
+    let scale = 1
+    for (let y = 0; y < metrics.scrollHeight; y += metrics.viewportH) {
+      const actualY = (await wc.executeJavaScript(`(window.scrollTo(0, ${y}), window.scrollY)`)) as number
+      await waitForPaint(wc)
+      const image = await wc.capturePage()
+      const size = image.getSize()
+      if (y === 0) {
+        scale = size.width / Math.max(1, metrics.viewportW)
+        width = size.width
+        await wc.executeJavaScript(`(() => {
+          for (const el of document.querySelectorAll('body *')) {
+            const pos = getComputedStyle(el).position;
+            if (pos !== 'fixed' && pos !== 'sticky') continue;
+            el.setAttribute('data-paper-capture-hidden', el.style.visibility || ' ');
+            el.style.visibility = 'hidden';
+          }
+        })()`)
+      }
+      // The last scroll is clamped, so it overlaps the previous strip
+      const skip = Math.round((y - actualY) * scale)
+      const top = Math.round(y * scale)
+      const stripH = Math.min(size.height - skip, Math.round(MAX_CAPTURE_HEIGHT - top))
+      if (stripH <= 0) break
+      const png = image.toPNG()
+      strips.push({
+        input: skip > 0 || stripH < size.height
+          ? await sharp(png).extract({ left: 0, top: skip, width: size.width, height: stripH }).toBuffer()
+          : png,
+        top,
+      })
+      height = top + stripH
+      if (height >= MAX_CAPTURE_HEIGHT || actualY < y) break
+    }
+  } finally {
+    await wc.executeJavaScript(`(() => {
+      for (const el of document.querySelectorAll('[data-paper-capture-hidden]')) {
+        const prev = el.getAttribute('data-paper-capture-hidden');
+        el.style.visibility = prev === ' ' ? '' : prev;
+        el.removeAttribute('data-paper-capture-hidden');
+      }
+      window.scrollTo(${metrics.scrollX}, ${metrics.scrollY});
+    })()`).catch(() => { /* page gone */ })
+    if (!wasPainting && !wc.isDestroyed()) wc.stopPainting()
+  }
+
+  if (strips.length === 0 || width === 0) throw new Error('Nothing to capture')
+  const data = await sharp({ create: { width, height, channels: 4, background: '#ffffff' } })
+    .composite(strips.map((s) => ({ input: s.input, top: s.top, left: 0 })))
+    .jpeg({ quality: FULL_PAGE_JPEG_QUALITY })
+    .toBuffer()
+  return { data, width, height, mimeType: 'image/jpeg' }
+}
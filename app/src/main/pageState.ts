@@ -0,0 +1,111 @@
+import type { WebContents } from 'electron'
+
+// Scroll position and typed form values of a discarded tab, saved with its
+// browser state and put back once the restored page has loaded. Only fields
+// the user changed from the page's defaults are kept; passwords, card numbers
+// and one-time codes never are. Scripts run in their own isolated world so the
+// page can neither see nor tamper with them.
+
+const PAGE_STATE_WORLD_ID = 1002
+const CAPTURE_TIMEOUT_MS = 500
+const MAX_FIELDS = 200
+const MAX_VALUE_LENGTH = 10_000
+
+export interface SavedField {
+  // CSS selector from the nearest unique id, or from the root
+  path: string
+  value?: string
+  checked?: boolean
+}
+
+export interface SavedPageState {
+  url: string
+  scrollX: number
+  scrollY: number
+  fields: SavedField[]
+}
+
+const CAPTURE_SCRIPT = `(() => {
+  const SKIP_TYPES = new Set(['password', 'hidden', 'file', 'submit', 'button', 'image', 'reset'])
+  const pathOf = (el) => {
+    const parts = []
+    for (let node = el; node && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && document.querySelectorAll('#' + CSS.escape(node.id)).length === 1) {
+        parts.unshift('#' + CSS.escape(node.id))
+        return parts.join(' > ')
+      }
+      let n = 1
+      for (let sib = node.previousElementSibling; sib; sib = sib.previousElementSibling) {
+        if (sib.localName === node.localName) n++
+      }
+      parts.unshift(node.localName + ':nth-of-type(' + n + ')')
+    }
+    return ':root > ' + parts.join(' > ')
+  }
+  const fields = []
+  for (const el of document.querySelectorAll('input, textarea, select')) {
+    if (fields.length >= ${MAX_FIELDS}) break
+    if (el.disabled || /^cc-|one-time-code|password/.test(el.autocomplete || '')) continue
+    if (el.localName === 'input' && SKIP_TYPES.has(el.type)) continue
+    if (el.localName === 'input' && (el.type === 'checkbox' || el.type === 'radio')) {
+      if (el.checked !== el.defaultChecked) fields.push({ path: pathOf(el), checked: el.checked })
+    } else if (el.localName === 'select') {
+      if ([...el.options].some((o) => o.selected !== o.defaultSelected)) fields.push({ path: pathOf(el), value: el.value })
+    } else if (el.value !== el.defaultValue && el.value.length <= ${MAX_VALUE_LENGTH}) {
+      fields.push({ path: pathOf(el), value: el.value })
+    }
+  }
+  return { url: location.href, scrollX: window.scrollX, scrollY: window.scrollY, fields }
+})()`
+
+// Fields are set before scrolling, since restoring them can change the layout.
+// Lazy pages may still be short right after load, so the scroll is retried.
+function applyScript(saved: SavedPageState): string {
+  return `(() => {
+  const saved = ${JSON.stringify(saved)}
+  for (const field of saved.fields) {
+    let el = null
+    try { el = document.querySelector(field.path) } catch { continue }
+    if (!el) continue
+    if (field.checked !== undefined) {
+      if (el.checked === field.checked) continue
+      el.checked = field.checked
+    } else {
+      if (el.value === field.value) continue
+      el.value = field.value
+    }
+    el.dispatchEvent(new Event('input', { bubbles: true }))
+    el.dispatchEvent(new Event('change', { bubbles: true }))
+  }
+  let tries = 0
+  const scroll = () => {
+    window.scrollTo(saved.scrollX, saved.scrollY)
+    const off = Math.abs(window.scrollX - saved.scrollX) > 1 || Math.abs(window.scrollY - saved.scrollY) > 1
+    if (off && ++tries < 20) setTimeout(scroll, 100)
+  }
+  scroll()
+})()`
+}
+
+function withoutHash(url: string): string {
+  const i = url.indexOf('#')
+  return i < 0 ? url : url.slice(0, i)
+}
+
+/** Reads the page's state, or null when there is nothing worth restoring or the page doesn't answer in time. */
+export async function capturePageState(wc: WebContents): Promise<SavedPageState | null> {
+  if (wc.isDestroyed()) return null
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), CAPTURE_TIMEOUT_MS))
+  const run = wc.executeJavaScriptInIsolatedWorld(PAGE_STATE_WORLD_ID, [{ code: CAPTURE_SCRIPT }])
+    .then((result) => result as SavedPageState)
+    .catch(() => null)
+  const saved = await Promise.race([run, timeout])
+  if (!saved || (saved.scrollX === 0 && saved.scrollY === 0 && saved.fields.length === 0)) return null
+  return saved
+}
+
+/** Puts saved state back if the page that loaded is the one it was taken from. */
+export function applyPageState(wc: WebContents, saved: SavedPageState): void {
+  if (wc.isDestroyed() || withoutHash(wc.getURL()) !== withoutHash(saved.url)) return
+  wc.executeJavaScriptInIsolatedWorld(PAGE_STATE_WORLD_ID, [{ code: applyScript(saved) }]).catch(() => { /* page gone */ })
+}
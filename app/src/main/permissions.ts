@@ -0,0 +1,156 @@
+import { ipcMain } from 'electron'
+import type { Session, WebContents } from 'electron'
+import type {
+  OverlayNotice,
+  PermissionDecision,
+  PermissionGrant,
+  PermissionRequestInfo,
+} from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Site permissions, remembered per (profile, origin, permission). Anything
+// without a stored decision is asked inline in the requesting shape.
+
+const PERMISSIONS_FILE = userDataFile('permissions.json')
+const PROMPT_TIMEOUT_MS = 60_000
+
+// Always granted and never persisted; these used to be the hard-coded allows.
+const ALWAYS_ALLOWED = new Set(['clipboard-read', 'clipboard-sanitized-write', 'fullscreen'])
+
+const grants: PermissionGrant[] = readJsonFile<PermissionGrant[]>(PERMISSIONS_FILE, [])
+const flushGrants = createDebouncedWriter(PERMISSIONS_FILE, () => grants)
+
+type PendingPrompt = {
+  info: PermissionRequestInfo
+  profile: string
+  resolve: (granted: boolean) => void
+  timer: NodeJS.Timeout
+}
+
+const pending = new Map<string, PendingPrompt>()
+const attachedSessions = new WeakSet<Session>()
+
+function originOf(url: string | undefined): string | null {
+  if (!url) return null
+  try {
+    const origin = new URL(url).origin
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+export function getDecision(profile: string, origin: string, permission: string): PermissionDecision {
+  return grants.find((g) => g.profile === profile && g.origin === origin && g.permission === permission)?.decision ?? 'ask'
+}
+
+export function setDecision(profile: string, origin: string, permission: string, decision: PermissionDecision): void {
+  const idx = grants.findIndex((g) => g.profile === profile && g.origin === origin && g.permission === permission)
+  if (decision === 'ask') {
+    if (idx !== -1) grants.splice(idx, 1)
+  } else {
+    const grant: PermissionGrant = { profile, origin, permission, decision, updatedAt: Date.now() }
+    if (idx === -1) grants.push(grant)
+    else grants[idx] = grant
+  }
+  flushGrants()
+}
+
+/**
+ * Installs request/check handlers on a profile's session once. Requests with no
+ * stored decision are parked until the renderer answers via
+ * `overlay:respond-permission`, the tab goes away, or the prompt times out.
+ */
+export function attachPermissionHandlers(
+  ses: Session,
+  profile: string,
+  tabIdFor: (wc: WebContents | undefined) => string | null,
+  sendNotice: (n: OverlayNotice) => void
+): void {
+  if (attachedSessions.has(ses)) return
+  attachedSessions.add(ses)
+
+  ses.setPermissionRequestHandler((wc, permission, callback, details) => {
+    try {
+      if (ALWAYS_ALLOWED.has(permission)) { callback(true); return }
+
+      const origin = originOf(details.requestingUrl) ?? originOf(wc.getURL())
+      const tabId = tabIdFor(wc)
+      if (!origin || !tabId) { callback(false); return }
+
+      const stored = getDecision(profile, origin, permission)
+      if (stored !== 'ask') { callback(stored === 'allow'); return }
+
+      const mediaTypes = (details as { mediaTypes?: string[] }).mediaTypes
+      const info: PermissionRequestInfo = {
+        id: `perm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        tabId,
+        origin,
+        permission,
+        mediaTypes: Array.isArray(mediaTypes) ? mediaTypes : undefined,
+      }
+
+      const settle = (granted: boolean): void => {
+        const p = pending.get(info.id)
+        if (!p) return
+        clearTimeout(p.timer)
+        pending.delete(info.id)
+        try { callback(granted) } catch { /* webContents already gone */ }
+        sendNotice({ kind: 'permission-resolved', tabId, id: info.id, granted })
+        if (!granted && permission === 'media') {
+          sendNotice({ kind: 'media-denied', which: info.mediaTypes?.join(' & ') || 'media devices' })
+        }
+      }
+
+      pending.set(info.id, {
+        info,
+        profile,
+        resolve: settle,
+        timer: setTimeout(() => settle(false), PROMPT_TIMEOUT_MS),
+      })
+      wc.once('destroyed', () => settle(false))
+      sendNotice({ kind: 'permission-request', request: info })
+    } catch (err) {
+      console.error('[permissions] Request handler error:', err)
+      callback(false)
+    }
+  })
+
+  ses.setPermissionCheckHandler((_wc, permission, requestingOrigin) => {
+    if (ALWAYS_ALLOWED.has(permission)) return true
+    const origin = originOf(requestingOrigin)
+    if (!origin) return false
+    return getDecision(profile, origin, permission) === 'allow'
+  })
+}
+
+export function registerPermissionIPC(): void {
+  ipcMain.handle('overlay:respond-permission', (_e, payload: { id: string; granted: boolean; remember?: boolean }) => {
+    const p = pending.get(payload?.id)
+    if (!p) return { ok: false as const, error: 'Prompt expired' }
+    if (payload.remember) {
+      setDecision(p.profile, p.info.origin, p.info.permission, payload.granted ? 'allow' : 'deny')
+    }
+    p.resolve(!!payload.granted)
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:list-permissions', () => ({ ok: true as const, grants: grants.slice() }))
+
+  ipcMain.handle('overlay:set-permission', (_e, payload: { profile: string; origin: string; permission: string; decision: PermissionDecision }) => {
+    if (!payload?.profile || !payload.origin || !payload.permission) return { ok: false as const, error: 'Invalid permission' }
+    setDecision(payload.profile, payload.origin, payload.permission, payload.decision)
+    return { ok: true as const }
+  })
+
+  ipcMain.handle('overlay:clear-permissions', (_e, payload?: { profile?: string; origin?: string }) => {
+    for (let i = grants.length - 1; i >= 0; i--) {
+      const g = grants[i]
+      if (payload?.profile && g.profile !== payload.profile) continue
+      if (payload?.origin && g.origin !== payload.origin) continue
+      grants.splice(i, 1)
+    }
+    flushGrants()
+    return { ok: true as const }
+  })
+}
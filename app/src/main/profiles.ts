@@ -0,0 +1,93 @@
+import { ipcMain, session } from 'electron'
+import type { BrowserProfile, OverlayNotice } from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Profiles ("containers") give each browser shape its own cookie jar. The
+// default profile keeps the original partition so existing logins survive.
+
+export const DEFAULT_PROFILE_ID = 'default'
+const DEFAULT_PARTITION = 'persist:overlay'
+const PROFILE_COLORS = ['#4c6ef5', '#e8590c', '#2f9e44', '#ae3ec9', '#f08c00', '#1098ad', '#e03131']
+
+const PROFILES_FILE = userDataFile('profiles.json')
+
+const profiles: BrowserProfile[] = readJsonFile<BrowserProfile[]>(PROFILES_FILE, [])
+if (!profiles.some((p) => p.id === DEFAULT_PROFILE_ID)) {
+  profiles.unshift({ id: DEFAULT_PROFILE_ID, name: 'Default', color: '#868e96' })
+}
+
+const flushProfiles = createDebouncedWriter(PROFILES_FILE, () => profiles)
+
+export function listProfiles(): BrowserProfile[] {
+  return profiles.map((p) => ({ ...p }))
+}
+
+export function getProfile(id: string | undefined | null): BrowserProfile | undefined {
+  if (!id) return undefined
+  return profiles.find((p) => p.id === id)
+}
+
+/** Accepts a profile id or (case-insensitive) name; unknown values resolve to null. */
+export function resolveProfileId(idOrName: string | undefined | null): string | null {
+  if (!idOrName) return DEFAULT_PROFILE_ID
+  const byId = getProfile(idOrName)
+  if (byId) return byId.id
+  const lower = idOrName.toLowerCase()
+  return profiles.find((p) => p.name.toLowerCase() === lower)?.id ?? null
+}
+
+export function partitionForProfile(id: string | undefined | null): string {
+  const profile = getProfile(id)
+  if (!profile || profile.id === DEFAULT_PROFILE_ID) return DEFAULT_PARTITION
+  return `persist:overlay-${profile.id}`
+}
+
+function slugify(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile'
+  let id = base
+  for (let n = 2; getProfile(id); n++) id = `${base}-${n}`
+  return id
+}
+
+export function createProfile(name: string, color?: string): BrowserProfile {
+  const trimmed = name.trim() || 'Profile'
+  const profile: BrowserProfile = {
+    id: slugify(trimmed),
+    name: trimmed,
+    color: color ?? PROFILE_COLORS[(profiles.length - 1) % PROFILE_COLORS.length],
+  }
+  profiles.push(profile)
+  flushProfiles()
+  return profile
+}
+
+export async function removeProfile(id: string): Promise<boolean> {
+  if (id === DEFAULT_PROFILE_ID) return false
+  const idx = profiles.findIndex((p) => p.id === id)
+  if (idx === -1) return false
+  const partition = partitionForProfile(id)
+  profiles.splice(idx, 1)
+  flushProfiles()
+  try { await session.fromPartition(partition).clearStorageData() } catch { /* ignore */ }
+  return true
+}
+
+export function registerProfileIPC(sendNotice: (n: OverlayNotice) => void): void {
+  const broadcast = (): void => sendNotice({ kind: 'profiles-changed', profiles: listProfiles() })
+
+  ipcMain.handle('overlay:list-profiles', () => ({ ok: true as const, profiles: listProfiles() }))
+
+  ipcMain.handle('overlay:create-profile', (_e, payload: { name: string; color?: string }) => {
+    if (!payload?.name?.trim()) return { ok: false as const, error: 'Name required' }
+    const profile = createProfile(payload.name, payload.color)
+    broadcast()
+    return { ok: true as const, profile }
+  })
+
+  ipcMain.handle('overlay:remove-profile', async (_e, payload: { profileId: string }) => {
+    const removed = await removeProfile(payload?.profileId)
+    if (!removed) return { ok: false as const, error: 'Cannot remove profile' }
+    broadcast()
+    return { ok: true as const }
+  })
+}
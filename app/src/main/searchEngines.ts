@@ -0,0 +1,220 @@
+import { ipcMain } from 'electron'
+import type { WebContents } from 'electron'
+import { randomUUID } from 'node:crypto'
+import type { OverlayNotice, SearchEngine, SearchEngineInput, SearchEngines } from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Search engines for the address bar and the context menu. Templates use
+// `%s` for the query. Keywords let "gh foo" search GitHub from the URL bar.
+// Pages that advertise an OpenSearch description are added as discovered
+// engines, keyed by their host like Chrome does.
+
+const ENGINES_FILE = userDataFile('search-engines.json')
+const MAX_DISCOVERED = 50
+
+const BUILT_IN: SearchEngine[] = [
+  { id: 'google', name: 'Google', keyword: 'g', url: 'https://www.google.com/search?q=%s', source: 'built-in' },
+  { id: 'duckduckgo', name: 'DuckDuckGo', keyword: 'ddg', url: 'https://duckduckgo.com/?q=%s', source: 'built-in' },
+  { id: 'bing', name: 'Bing', keyword: 'b', url: 'https://www.bing.com/search?q=%s', source: 'built-in' },
+  { id: 'wikipedia', name: 'Wikipedia', keyword: 'w', url: 'https://en.wikipedia.org/wiki/Special:Search?search=%s', source: 'built-in' },
+  { id: 'github', name: 'GitHub', keyword: 'gh', url: 'https://github.com/search?q=%s', source: 'built-in' },
+  { id: 'mdn', name: 'MDN', keyword: 'mdn', url: 'https://developer.mozilla.org/search?q=%s', source: 'built-in' },
+  { id: 'youtube', name: 'YouTube', keyword: 'yt', url: 'https://www.youtube.com/results?search_query=%s', source: 'built-in' },
+]
+const DEFAULT_ENGINE_ID = 'google'
+
+const stored = readJsonFile<Partial<SearchEngines>>(ENGINES_FILE, {})
+const registry: SearchEngines = {
+  defaultId: stored.defaultId ?? DEFAULT_ENGINE_ID,
+  engines: Array.isArray(stored.engines) ? stored.engines : structuredClone(BUILT_IN),
+}
+if (!registry.engines.some((e) => e.id === registry.defaultId)) registry.defaultId = registry.engines[0]?.id ?? DEFAULT_ENGINE_ID
+
+const flushEngines = createDebouncedWriter(ENGINES_FILE, () => registry)
+
+let notify: ((n: OverlayNotice) => void) | null = null
+
+export function getSearchEngines(): SearchEngines {
+  return structuredClone(registry)
+}
+
+function changed(): void {
+  flushEngines()
+  notify?.({ kind: 'search-engines-changed', engines: getSearchEngines() })
+}
+
+export function getDefaultEngine(): SearchEngine {
+  return registry.engines.find((e) => e.id === registry.defaultId) ?? registry.engines[0] ?? BUILT_IN[0]
+}
+
+export function searchUrlFor(query: string, engine: SearchEngine = getDefaultEngine()): string {
+  return engine.url.replace(/%s/g, encodeURIComponent(query))
+}
+
+function normalizeKeyword(keyword: string | undefined): string {
+  return (keyword ?? '').trim().toLowerCase().replace(/\s+/g, '')
+}
+
+function validTemplate(url: string): boolean {
+  if (!url.includes('%s')) return false
+  try {
+    const u = new URL(url.replace(/%s/g, 'test'))
+    return u.protocol === 'http:' || u.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function keywordTaken(keyword: string, exceptId?: string): boolean {
+  return !!keyword && registry.engines.some((e) => e.keyword === keyword && e.id !== exceptId)
+}
+
+export function addSearchEngine(input: SearchEngineInput, source: SearchEngine['source'] = 'custom'): SearchEngine {
+  const url = input.url.trim()
+  if (!validTemplate(url)) throw new Error('The URL must be http(s) and contain %s where the query goes')
+  const keyword = normalizeKeyword(input.keyword)
+  if (keywordTaken(keyword)) throw new Error(`Keyword "${keyword}" is already used`)
+  const engine: SearchEngine = { id: randomUUID(), name: input.name.trim() || new URL(url.replace(/%s/g, '')).hostname, keyword, url, source }
+  registry.engines.push(engine)
+  changed()
+  return engine
+}
+
+export function updateSearchEngine(id: string, patch: Partial<SearchEngineInput>): SearchEngine {
+  const engine = registry.engines.find((e) => e.id === id)
+  if (!engine) throw new Error('No such search engine')
+  if (patch.url !== undefined) {
+    if (!validTemplate(patch.url.trim())) throw new Error('The URL must be http(s) and contain %s where the query goes')
+    engine.url = patch.url.trim()
+  }
+  if (patch.keyword !== undefined) {
+    const keyword = normalizeKeyword(patch.keyword)
+    if (keywordTaken(keyword, id)) throw new Error(`Keyword "${keyword}" is already used`)
+    engine.keyword = keyword
+  }
+  if (patch.name?.trim()) engine.name = patch.name.trim()
+  changed()
+  return { ...engine }
+}
+
+export function removeSearchEngine(id: string): void {
+  if (id === registry.defaultId) throw new Error('Choose another default engine first')
+  const idx = registry.engines.findIndex((e) => e.id === id)
+  if (idx === -1) return
+  registry.engines.splice(idx, 1)
+  changed()
+}
+
+export function setDefaultSearchEngine(id: string): void {
+  if (!registry.engines.some((e) => e.id === id)) throw new Error('No such search engine')
+  registry.defaultId = id
+  changed()
+}
+
+// -------------------- OpenSearch discovery -----------------------------------
+
+// Origins already looked at this run, whether or not they had a description
+const probedOrigins = new Set<string>()
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/** `{searchTerms}` becomes `%s`; optional `{x?}` parameters are dropped. */
+function templateFromOpenSearch(template: string): string | null {
+  const url = template
+    .replace(/\{searchTerms\}/g, '%s')
+    .replace(/\{inputEncoding\??\}|\{outputEncoding\??\}/g, 'UTF-8')
+    .replace(/[?&][^=&#]+=\{[^}]+\?\}/g, (m) => (m.startsWith('?') ? '?' : ''))
+    .replace(/\?&/, '?')
+  // Any other required parameter would need a value we cannot supply
+  return /\{[^}]+\}/.test(url) ? null : url
+}
+
+function parseOpenSearch(xml: string): { name: string; url: string } | null {
+  const name = /<ShortName>([\s\S]*?)<\/ShortName>/i.exec(xml)?.[1]?.trim()
+  for (const m of xml.matchAll(/<Url\b([^>]*)\/?>/gi)) {
+    const attrs = m[1]
+    const type = /\btype\s*=\s*"([^"]*)"/i.exec(attrs)?.[1]
+    const template = /\btemplate\s*=\s*"([^"]*)"/i.exec(attrs)?.[1]
+    const method = /\bmethod\s*=\s*"([^"]*)"/i.exec(attrs)?.[1]
+    if (!template || (type && type !== 'text/html') || (method && method.toLowerCase() !== 'get')) continue
+    const url = templateFromOpenSearch(decodeXml(template))
+    if (url && validTemplate(url)) return { name: decodeXml(name ?? ''), url }
+  }
+  return null
+}
+
+/**
+ * Looks for `<link rel="search" type="application/opensearchdescription+xml">`
+ * on the loaded page and registers its engine. Call after a main-frame load.
+ * As in Chromium, a page can only describe an engine on its own origin, so a
+ * site can't slip in a search engine for somebody else's host.
+ */
+export async function discoverOpenSearch(wc: WebContents): Promise<void> {
+  if (wc.isDestroyed()) return
+  let origin: string
+  let pageHost: string
+  try {
+    const u = new URL(wc.getURL())
+    if (u.protocol !== 'https:' && u.protocol !== 'http:') return
+    origin = u.origin
+    pageHost = u.hostname
+  } catch {
+    return
+  }
+  if (probedOrigins.has(origin)) return
+  probedOrigins.add(origin)
+
+  const href = (await wc.executeJavaScript(
+    `(document.querySelector('link[rel~="search"][type="application/opensearchdescription+xml"]') || {}).href || null`
+  ).catch(() => null)) as string | null
+  if (!href) return
+
+  try {
+    if (new URL(href).origin !== origin) return
+    const res = await wc.session.fetch(href)
+    if (!res.ok) return
+    const parsed = parseOpenSearch(await res.text())
+    if (!parsed) return
+    const host = new URL(parsed.url.replace(/%s/g, '')).hostname
+    if (host !== pageHost) return
+    if (registry.engines.some((e) => new URL(e.url.replace(/%s/g, '')).hostname === host)) return
+    if (registry.engines.filter((e) => e.source === 'discovered').length >= MAX_DISCOVERED) return
+    const keyword = host.replace(/^www\./, '')
+    const engine = addSearchEngine({ name: parsed.name || keyword, keyword: keywordTaken(keyword) ? '' : keyword, url: parsed.url }, 'discovered')
+    notify?.({ kind: 'search-engine-discovered', engine: { ...engine } })
+  } catch { /* ignore */ }
+}
+
+export function registerSearchEngineIPC(sendNotice: (n: OverlayNotice) => void): void {
+  notify = sendNotice
+
+  const run = (fn: () => void): { ok: true; engines: SearchEngines } | { ok: false; error: string } => {
+    try {
+      fn()
+      return { ok: true, engines: getSearchEngines() }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : 'Failed' }
+    }
+  }
+
+  ipcMain.handle('overlay:list-search-engines', () => ({ ok: true as const, engines: getSearchEngines() }))
+
+  ipcMain.handle('overlay:add-search-engine', (_e, payload: SearchEngineInput) =>
+    run(() => { addSearchEngine(payload ?? { name: '', keyword: '', url: '' }) }))
+
+  ipcMain.handle('overlay:update-search-engine', (_e, payload: { id: string; patch: Partial<SearchEngineInput> }) =>
+    run(() => { updateSearchEngine(payload?.id, payload?.patch ?? {}) }))
+
+  ipcMain.handle('overlay:remove-search-engine', (_e, payload: { id: string }) =>
+    run(() => removeSearchEngine(payload?.id)))
+
+  ipcMain.handle('overlay:set-default-search-engine', (_e, payload: { id: string }) =>
+    run(() => setDefaultSearchEngine(payload?.id)))
+}
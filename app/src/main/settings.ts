@@ -0,0 +1,44 @@
+import { ipcMain } from 'electron'
+import type { AppSettings, AppSettingsPatch, OverlayNotice } from '../types/overlay'
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// App-wide preferences edited from the settings panel. Each section is merged
+// over its defaults so new keys show up for existing users.
+
+const SETTINGS_FILE = userDataFile('settings.json')
+
+const DEFAULT_SETTINGS: AppSettings = {
+  spatialAudio: { enabled: false, floor: 0.15 },
+}
+
+const stored = readJsonFile<Partial<AppSettings>>(SETTINGS_FILE, {})
+const settings: AppSettings = {
+  spatialAudio: { ...DEFAULT_SETTINGS.spatialAudio, ...stored.spatialAudio },
+}
+
+const flushSettings = createDebouncedWriter(SETTINGS_FILE, () => settings)
+
+export function getSettings(): AppSettings {
+  return structuredClone(settings)
+}
+
+export function updateSettings(patch: AppSettingsPatch): AppSettings {
+  if (patch.spatialAudio) {
+    const next = { ...settings.spatialAudio, ...patch.spatialAudio }
+    next.floor = Math.min(1, Math.max(0, Number(next.floor) || 0))
+    next.enabled = !!next.enabled
+    settings.spatialAudio = next
+  }
+  flushSettings()
+  return getSettings()
+}
+
+export function registerSettingsIPC(sendNotice: (n: OverlayNotice) => void): void {
+  ipcMain.handle('overlay:get-settings', () => ({ ok: true as const, settings: getSettings() }))
+
+  ipcMain.handle('overlay:update-settings', (_e, patch: AppSettingsPatch) => {
+    const next = updateSettings(patch ?? {})
+    sendNotice({ kind: 'settings-changed', settings: next })
+    return { ok: true as const, settings: next }
+  })
+}
@@ -0,0 +1,64 @@
+import type { MessagePortMain, NativeImage, Rectangle } from 'electron'
+
+export type SoftwareFrameMessage = {
+  tabId: string
+  width: number
+  height: number
+  dirty: { x: number; y: number; width: number; height: number }
+  data: Uint8Array
+}
+
+type GetPort = () => MessagePortMain | null
+
+export class SoftwareFrameStream {
+  private closed = false
+  private lastSize = { width: 0, height: 0 }
+  // Port the last frame went to; a new one belongs to a reloaded renderer with an empty buffer
+  private lastPort: MessagePortMain | null = null
+
+  constructor(
+    private readonly tabId: string,
+    private readonly getPort: GetPort
+  ) { }
+
+  enqueue(image: NativeImage, dirtyRect: Rectangle): void {
+    if (this.closed) return
+    const port = this.getPort()
+    if (!port) return
+
+    const { width, height } = image.getSize()
+    if (width <= 0 || height <= 0) return
+
+    // A resized surface or a fresh port invalidates the renderer-side buffer, so ship it whole.
+    const resized = width !== this.lastSize.width || height !== this.lastSize.height || port !== this.lastPort
+    this.lastSize = { width, height }
+    this.lastPort = port
+    const dirty = resized ? { x: 0, y: 0, width, height } : clampRect(dirtyRect, width, height)
+    if (dirty.width <= 0 || dirty.height <= 0) return
+
+    const full = dirty.width === width && dirty.height === height
+    const bitmap = full ? image.toBitmap() : image.crop(dirty).toBitmap()
+    if (bitmap.length !== dirty.width * dirty.height * 4) return
+
+    const msg: SoftwareFrameMessage = {
+      tabId: this.tabId,
+      width,
+      height,
+      dirty,
+      data: new Uint8Array(bitmap.buffer, bitmap.byteOffset, bitmap.byteLength),
+    }
+    try { port.postMessage(msg) } catch { /* port closed by renderer reload */ }
+  }
+
+  close(): void {
+    this.closed = true
+  }
+}
+
+function clampRect(r: Rectangle, maxW: number, maxH: number): { x: number; y: number; width: number; height: number } {
+  const x = Math.max(0, Math.floor(r.x))
+  const y = Math.max(0, Math.floor(r.y))
+  const right = Math.min(maxW, Math.ceil(r.x + r.width))
+  const bottom = Math.min(maxH, Math.ceil(r.y + r.height))
+  return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) }
+}
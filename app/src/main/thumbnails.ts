@@ -0,0 +1,66 @@
+import type { NativeImage } from 'electron'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import sharp from 'sharp'
+import type { PersistedThumbLevel, ThumbFormat, ThumbLevel } from '../types/overlay'
+
+// Tab posters are encoded once per capture at a few widths, so a shape seen
+// small on the canvas decodes a small image and a zoomed-in one stays sharp.
+// The largest level is the capture itself, limited to the requested maxWidth.
+
+const LEVEL_WIDTHS = [320, 960]
+const DEFAULT_QUALITY = 80
+
+const MIME_TYPES: Record<ThumbFormat, string> = { webp: 'image/webp', jpeg: 'image/jpeg' }
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' }
+
+export function thumbLevelWidths(capturedWidth: number, maxWidth?: number): number[] {
+  const limit = maxWidth && maxWidth > 0 ? Math.min(capturedWidth, maxWidth) : capturedWidth
+  const top = Math.max(1, Math.round(limit))
+  return [...LEVEL_WIDTHS.filter((w) => w < top), top]
+}
+
+export async function encodeThumbLevels(
+  image: NativeImage,
+  options: { maxWidth?: number; format?: ThumbFormat; quality?: number }
+): Promise<ThumbLevel[]> {
+  const size = image.getSize()
+  if (size.width === 0 || size.height === 0) throw new Error('Empty capture')
+  const format = options.format === 'jpeg' ? 'jpeg' : 'webp'
+  const quality = Math.round(Math.min(100, Math.max(1, Number(options.quality) || DEFAULT_QUALITY)))
+  const source = sharp(image.toPNG())
+  return Promise.all(thumbLevelWidths(size.width, options.maxWidth).map(async (width) => {
+    const resized = source.clone().resize({ width })
+    const data = format === 'jpeg'
+      ? await resized.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer()
+      : await resized.webp({ quality }).toBuffer()
+    return {
+      width,
+      height: Math.max(1, Math.round((size.height * width) / size.width)),
+      dataUrl: `data:${MIME_TYPES[format]};base64,${data.toString('base64')}`,
+    }
+  }))
+}
+
+/** Reads a saved level back as a data URL. */
+export async function readThumbLevel(filePath: string): Promise<string> {
+  const ext = path.extname(filePath).slice(1)
+  const mimeType = Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === ext)
+  if (!mimeType) throw new Error('Unknown poster type')
+  const data = await fs.promises.readFile(filePath)
+  return `data:${mimeType};base64,${data.toString('base64')}`
+}
+
+/** Writes each level as `<baseName>-<width>.<ext>` in `dir`; levels with an unknown type are skipped. */
+export function writeThumbLevels(dir: string, baseName: string, levels: ThumbLevel[]): PersistedThumbLevel[] {
+  const written: PersistedThumbLevel[] = []
+  for (const level of levels) {
+    const match = /^data:([^;,]+);base64,/.exec(level.dataUrl)
+    const ext = match ? EXTENSIONS[match[1]] : undefined
+    if (!match || !ext) continue
+    const filePath = path.join(dir, `${baseName}-${level.width}.${ext}`)
+    fs.writeFileSync(filePath, Buffer.from(level.dataUrl.slice(match[0].length), 'base64'))
+    written.push({ width: level.width, height: level.height, path: filePath })
+  }
+  return written
+}
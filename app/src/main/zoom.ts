@@ -0,0 +1,62 @@
+import { createDebouncedWriter, readJsonFile, userDataFile } from './jsonStore'
+
+// Page (content) zoom, remembered per profile + origin. This is Chromium's
+// layout zoom, so text reflows; it never touches the tldraw camera. Chromium
+// already shares a host's zoom across webContents in one session, which is
+// the per-origin behaviour we persist here.
+
+const ZOOM_FILE = userDataFile('zoom.json')
+
+export const DEFAULT_ZOOM = 1
+const ZOOM_STEPS = [0.25, 0.33, 0.5, 0.67, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5]
+
+// profile id → origin → zoom factor (entries at 100% are dropped)
+const zoomByProfile: Record<string, Record<string, number>> = readJsonFile(ZOOM_FILE, {})
+const flushZoom = createDebouncedWriter(ZOOM_FILE, () => zoomByProfile)
+
+function originOf(url: string): string | null {
+  try {
+    const origin = new URL(url).origin
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+/** Key Chromium shares zoom under: tabs of one profile on the same host always zoom together. */
+export function zoomHostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname || null
+  } catch {
+    return null
+  }
+}
+
+export function clampZoom(factor: number): number {
+  if (!Number.isFinite(factor)) return DEFAULT_ZOOM
+  return Math.min(ZOOM_STEPS[ZOOM_STEPS.length - 1], Math.max(ZOOM_STEPS[0], factor))
+}
+
+/** Next preset above/below `current`, like Chrome's Ctrl +/- steps. */
+export function stepZoom(current: number, direction: 1 | -1): number {
+  if (direction > 0) return ZOOM_STEPS.find((z) => z > current + 0.001) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]
+  for (let i = ZOOM_STEPS.length - 1; i >= 0; i--) {
+    if (ZOOM_STEPS[i] < current - 0.001) return ZOOM_STEPS[i]
+  }
+  return ZOOM_STEPS[0]
+}
+
+export function getStoredZoom(profile: string, url: string): number {
+  const origin = originOf(url)
+  if (!origin) return DEFAULT_ZOOM
+  return zoomByProfile[profile]?.[origin] ?? DEFAULT_ZOOM
+}
+
+export function storeZoom(profile: string, url: string, factor: number): void {
+  const origin = originOf(url)
+  if (!origin) return
+  const byOrigin = (zoomByProfile[profile] ??= {})
+  if (Math.abs(factor - DEFAULT_ZOOM) < 0.001) delete byOrigin[origin]
+  else byOrigin[origin] = factor
+  flushZoom()
+}
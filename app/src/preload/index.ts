@@ -12,6 +12,8 @@ import type {
   ThawPayload,
   SnapshotRequest,
   SnapshotResult,
+  ThumbLevel,
+  ReadThumbResult,
   CreateTabPayload,
   CreateTabResponse,
   DestroyTabPayload,
@@ -24,6 +26,42 @@ import type {
   SetLifecyclePayload,
   PersistedStateResult,
   SharedTextureFrame,
+  FrameMode,
+  ProfilesResult,
+  CreateProfileResult,
+  DownloadsResult,
+  PermissionDecision,
+  FindInPagePayload,
+  FindInPageResult,
+  StopFindPayload,
+  SetZoomPayload,
+  ZoomResult,
+  SpatialAudioEntry,
+  FrameRateEntry,
+  RenderScaleEntry,
+  MetricsResult,
+  AppSettingsPatch,
+  SettingsResult,
+  PrintToPdfPayload,
+  SavedFileResult,
+  FullPageCaptureResult,
+  PermissionsResult,
+  DownloadSettingsResult,
+  FileDataUrlResult,
+  ContentBlockingResult,
+  ShieldState,
+  HistoryQuery,
+  HistoryResult,
+  HistorySuggestion,
+  Bookmark,
+  BookmarkFolder,
+  BookmarkFolderResult,
+  BookmarkPatch,
+  BookmarkResult,
+  BookmarkSearch,
+  BookmarksResult,
+  SearchEngineInput,
+  SearchEnginesResult,
 } from '../types/overlay'
 
 declare global {
@@ -46,15 +84,77 @@ if (st) {
     cb(frame, tabId)
   })
 } else {
-  console.warn('[preload] sharedTexture not available')
+  console.warn('[preload] sharedTexture not available, relying on software frames')
 }
 
+// ---- Software frames -------------------------------------------------------
+// Main sends BGRA dirty rects; we patch them into a per-tab buffer and wrap it
+// in the same { importedSharedTexture } shape the GPU path produces.
+type SoftwareFrameMessage = {
+  tabId: string
+  width: number
+  height: number
+  dirty: { x: number; y: number; width: number; height: number }
+  data: Uint8Array
+}
+
+const softwareSurfaces = new Map<string, { width: number; height: number; pixels: Uint8Array }>()
+
+function applySoftwareFrame(msg: SoftwareFrameMessage): void {
+  const { tabId, width, height, dirty, data } = msg
+  let surface = softwareSurfaces.get(tabId)
+  if (!surface || surface.width !== width || surface.height !== height) {
+    surface = { width, height, pixels: new Uint8Array(width * height * 4) }
+    softwareSurfaces.set(tabId, surface)
+  }
+  const rowBytes = dirty.width * 4
+  for (let row = 0; row < dirty.height; row++) {
+    const src = row * rowBytes
+    const dst = ((dirty.y + row) * width + dirty.x) * 4
+    surface.pixels.set(data.subarray(src, src + rowBytes), dst)
+  }
+
+  const cb = frameCallbacks.get(tabId)
+  if (!cb) return
+  const pixels = surface.pixels
+  const frame: SharedTextureFrame = {
+    importedSharedTexture: {
+      getVideoFrame: () => new VideoFrame(pixels, {
+        format: 'BGRA',
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round(performance.now() * 1000),
+      }),
+      release: () => { },
+    },
+  }
+  cb(frame, tabId)
+}
+
+const frameModeReady: Promise<FrameMode> = ipcRenderer.invoke('overlay:get-frame-mode')
+  .then((mode: FrameMode) => {
+    if (mode === 'software') {
+      ipcRenderer.on('overlay-frame-port', (e: IpcRendererEvent) => {
+        const port = e.ports[0]
+        if (!port) return
+        port.onmessage = (ev: MessageEvent<SoftwareFrameMessage>) => applySoftwareFrame(ev.data)
+        port.start()
+      })
+      ipcRenderer.send('overlay:request-frame-port')
+    }
+    return mode
+  })
+  .catch((): FrameMode => 'shared-texture')
+
 // ---- Overlay API -----------------------------------------------------------
 const overlay: OverlayAPI = {
   createTab: (payload: CreateTabPayload): Promise<CreateTabResponse> => ipcRenderer.invoke('overlay:create-tab', payload),
   show: (payload: TabIdPayload): Promise<void> => ipcRenderer.invoke('overlay:show', payload),
   hide: (payload: TabIdPayload): Promise<void> => ipcRenderer.invoke('overlay:hide', payload),
-  destroy: (payload: DestroyTabPayload): Promise<void> => ipcRenderer.invoke('overlay:destroy', payload),
+  destroy: (payload: DestroyTabPayload): Promise<void> => {
+    softwareSurfaces.delete(payload.tabId)
+    return ipcRenderer.invoke('overlay:destroy', payload)
+  },
 
   sendInput: (payload: SendInputPayload): Promise<void> => ipcRenderer.invoke('overlay:send-input', payload),
   setBounds: (payload: BoundsPayload | BoundsPayload[]): Promise<void> => ipcRenderer.invoke('overlay:set-bounds', payload),
@@ -64,6 +164,25 @@ const overlay: OverlayAPI = {
   goForward: (payload: TabIdPayload): Promise<SimpleResult> => ipcRenderer.invoke('overlay:go-forward', payload),
   reload: (payload: TabIdPayload): Promise<SimpleResult> => ipcRenderer.invoke('overlay:reload', payload),
   getNavigationState: (payload: TabIdPayload): Promise<NavigationStateResult> => ipcRenderer.invoke('overlay:get-navigation-state', payload),
+  findInPage: (payload: FindInPagePayload): Promise<FindInPageResult> => ipcRenderer.invoke('overlay:find-in-page', payload),
+  stopFindInPage: (payload: StopFindPayload): Promise<SimpleResult> => ipcRenderer.invoke('overlay:stop-find-in-page', payload),
+  setZoom: (payload: SetZoomPayload): Promise<ZoomResult> => ipcRenderer.invoke('overlay:set-zoom', payload),
+  getZoom: (payload: TabIdPayload): Promise<ZoomResult> => ipcRenderer.invoke('overlay:get-zoom', payload),
+  setMuted: (payload: { tabId: string; muted: boolean }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-muted', payload),
+  setVolume: (payload: { tabId: string; volume: number }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-volume', payload),
+  muteOtherTabs: (payload: { tabId: string | null }): Promise<{ ok: true; tabIds: string[] }> =>
+    ipcRenderer.invoke('overlay:mute-other-tabs', payload),
+  captureFullPage: (payload: TabIdPayload): Promise<FullPageCaptureResult> => ipcRenderer.invoke('overlay:capture-full-page', payload),
+  printToPdf: (payload: PrintToPdfPayload): Promise<SavedFileResult> => ipcRenderer.invoke('overlay:print-to-pdf', payload),
+  setSpatialAudio: (entries: SpatialAudioEntry[] | null): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-spatial-audio', entries),
+  setFrameRate: (entries: FrameRateEntry[]): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-frame-rate', entries),
+  setRenderScale: (entries: RenderScaleEntry[]): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-render-scale', entries),
+
+  getMetrics: (): Promise<MetricsResult> => ipcRenderer.invoke('overlay:get-metrics'),
+  endTabProcess: (payload: { tabId: string }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:end-tab-process', payload),
+
+  getSettings: (): Promise<SettingsResult> => ipcRenderer.invoke('overlay:get-settings'),
+  updateSettings: (patch: AppSettingsPatch): Promise<SettingsResult> => ipcRenderer.invoke('overlay:update-settings', patch),
 
   freeze: (payload: FreezePayload): Promise<void> => ipcRenderer.invoke('overlay:freeze', payload),
   thaw: (payload: ThawPayload): Promise<void> => ipcRenderer.invoke('overlay:thaw', payload),
@@ -72,8 +191,79 @@ const overlay: OverlayAPI = {
   setLifecycle: (payload: SetLifecyclePayload): Promise<SimpleResult> => ipcRenderer.invoke('overlay:set-lifecycle', payload),
   getPersistedState: (): Promise<PersistedStateResult> => ipcRenderer.invoke('overlay:get-persisted-state'),
 
-  saveThumb: (payload: { tabId: string; url: string; dataUrlWebp: string }) =>
+  saveThumb: (payload: { tabId: string; url: string; levels: ThumbLevel[] }) =>
     ipcRenderer.invoke('overlay:save-thumb', payload),
+  readThumb: (payload: { path: string }): Promise<ReadThumbResult> =>
+    ipcRenderer.invoke('overlay:read-thumb', payload),
+
+  listProfiles: (): Promise<ProfilesResult> => ipcRenderer.invoke('overlay:list-profiles'),
+  createProfile: (payload: { name: string; color?: string }): Promise<CreateProfileResult> =>
+    ipcRenderer.invoke('overlay:create-profile', payload),
+  removeProfile: (payload: { profileId: string }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:remove-profile', payload),
+
+  listDownloads: (): Promise<DownloadsResult> => ipcRenderer.invoke('overlay:list-downloads'),
+  pauseDownload: (payload: { id: string }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:pause-download', payload),
+  resumeDownload: (payload: { id: string }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:resume-download', payload),
+  cancelDownload: (payload: { id: string }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:cancel-download', payload),
+  openFile: (payload: { filePath: string; reveal?: boolean }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:open-file', payload),
+  readFileDataUrl: (payload: { filePath: string; mimeType: string }): Promise<FileDataUrlResult> =>
+    ipcRenderer.invoke('overlay:read-file-data-url', payload),
+  clearDownloads: (): Promise<SimpleResult> => ipcRenderer.invoke('overlay:clear-downloads'),
+  getDownloadSettings: (): Promise<DownloadSettingsResult> => ipcRenderer.invoke('overlay:get-download-settings'),
+  chooseDownloadDirectory: (): Promise<DownloadSettingsResult> => ipcRenderer.invoke('overlay:choose-download-directory'),
+
+  respondPermission: (payload: { id: string; granted: boolean; remember?: boolean }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:respond-permission', payload),
+  listPermissions: (): Promise<PermissionsResult> => ipcRenderer.invoke('overlay:list-permissions'),
+  setPermission: (payload: { profile: string; origin: string; permission: string; decision: PermissionDecision }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:set-permission', payload),
+  clearPermissions: (payload?: { profile?: string; origin?: string }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:clear-permissions', payload),
+
+  getContentBlocking: (): Promise<ContentBlockingResult> => ipcRenderer.invoke('overlay:get-content-blocking'),
+  setContentBlocking: (payload: { enabled: boolean }): Promise<ContentBlockingResult> =>
+    ipcRenderer.invoke('overlay:set-content-blocking', payload),
+  setSiteAllowed: (payload: { host: string; allowed: boolean }): Promise<ContentBlockingResult> =>
+    ipcRenderer.invoke('overlay:set-site-allowed', payload),
+  toggleShield: (payload: TabIdPayload): Promise<{ ok: true; shield: ShieldState } | { ok: false; error: string }> =>
+    ipcRenderer.invoke('overlay:toggle-shield', payload),
+  reloadFilterLists: (): Promise<ContentBlockingResult> => ipcRenderer.invoke('overlay:reload-filter-lists'),
+  openFilterFolder: (): Promise<SimpleResult> => ipcRenderer.invoke('overlay:open-filter-folder'),
+
+  queryHistory: (query?: HistoryQuery): Promise<HistoryResult> => ipcRenderer.invoke('overlay:query-history', query),
+  suggestHistory: (payload: { text: string; limit?: number }): Promise<{ ok: true; suggestions: HistorySuggestion[] } | { ok: false; error: string }> =>
+    ipcRenderer.invoke('overlay:suggest-history', payload),
+  deleteHistory: (payload: { ids: string[] }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:delete-history', payload),
+  clearHistory: (payload?: { from?: number; to?: number }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:clear-history', payload),
+
+  listBookmarks: (): Promise<BookmarksResult> => ipcRenderer.invoke('overlay:list-bookmarks'),
+  searchBookmarks: (query?: BookmarkSearch): Promise<{ ok: true; bookmarks: Bookmark[] } | { ok: false; error: string }> =>
+    ipcRenderer.invoke('overlay:search-bookmarks', query),
+  addBookmark: (payload: { url: string; title?: string; folderId?: string | null; tags?: string[] }): Promise<BookmarkResult> =>
+    ipcRenderer.invoke('overlay:add-bookmark', payload),
+  updateBookmark: (payload: { id: string; patch: BookmarkPatch }): Promise<BookmarkResult> =>
+    ipcRenderer.invoke('overlay:update-bookmark', payload),
+  removeBookmarks: (payload: { ids: string[] }): Promise<SimpleResult> => ipcRenderer.invoke('overlay:remove-bookmarks', payload),
+  createBookmarkFolder: (payload: { name: string; parentId?: string | null }): Promise<BookmarkFolderResult> =>
+    ipcRenderer.invoke('overlay:create-bookmark-folder', payload),
+  updateBookmarkFolder: (payload: { id: string; name?: string; parentId?: string }): Promise<BookmarkFolderResult> =>
+    ipcRenderer.invoke('overlay:update-bookmark-folder', payload),
+  removeBookmarkFolder: (payload: { id: string }): Promise<SimpleResult> =>
+    ipcRenderer.invoke('overlay:remove-bookmark-folder', payload),
+  importBookmarks: (): Promise<{ ok: true; folder: BookmarkFolder; count: number } | { ok: false; error: string }> =>
+    ipcRenderer.invoke('overlay:import-bookmarks'),
+  exportBookmarks: (): Promise<{ ok: true; filePath: string } | { ok: false; error: string }> =>
+    ipcRenderer.invoke('overlay:export-bookmarks'),
+
+  listSearchEngines: (): Promise<SearchEnginesResult> => ipcRenderer.invoke('overlay:list-search-engines'),
+  addSearchEngine: (payload: SearchEngineInput): Promise<SearchEnginesResult> => ipcRenderer.invoke('overlay:add-search-engine', payload),
+  updateSearchEngine: (payload: { id: string; patch: Partial<SearchEngineInput> }): Promise<SearchEnginesResult> =>
+    ipcRenderer.invoke('overlay:update-search-engine', payload),
+  removeSearchEngine: (payload: { id: string }): Promise<SearchEnginesResult> => ipcRenderer.invoke('overlay:remove-search-engine', payload),
+  setDefaultSearchEngine: (payload: { id: string }): Promise<SearchEnginesResult> =>
+    ipcRenderer.invoke('overlay:set-default-search-engine', payload),
 
   onUrlUpdate: (callback) => {
     const ch = 'overlay-url-updated'
@@ -121,6 +311,8 @@ const overlay: OverlayAPI = {
     }
   },
 
+  getFrameMode: (): Promise<FrameMode> => frameModeReady,
+
   decodeGPUFrame: async (_handle: Uint8Array): Promise<ImageBitmap | null> => {
     console.warn('[preload] decodeGPUFrame is a no-op')
     return null
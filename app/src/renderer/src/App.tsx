@@ -9,9 +9,13 @@ import { useUiChromeManager } from './Utils/useUiChromeManager'
 import { Toaster, toast } from 'react-hot-toast'
 import type { OverlayNotice } from '../../types/overlay'
 import LifecycleHost from './LifecycleHost'
+import DownloadsHost from './DownloadsHost'
+import { FileCardShapeUtil } from './Utils/FileCardShapeUtil'
+import { PanelHost } from './components/PanelHost'
+import { DEFAULT_PROFILE_ID } from './Utils/useProfiles'
+import { BROWSER_H, BROWSER_W } from './Utils/browserShapes'
+import { describeCrashReason } from './Utils/tabCrash'
 
-const BROWSER_W = 1200
-const BROWSER_H = 660
 const ZOOM_HIDE = 0.65
 const ZOOM_SHOW = 0.6
 const DURATION_MS = 180
@@ -55,7 +59,7 @@ function backToContentSafe(editor: Editor): void {
 }
 
 export default function App() {
-  const shapeUtils = useMemo(() => [BrowserShapeUtil], [])
+  const shapeUtils = useMemo(() => [BrowserShapeUtil, FileCardShapeUtil], [])
   const assetUrls = useMemo(
     () => getAssetUrls({ baseUrl: import.meta.env.DEV ? '/tldraw-assets' : './tldraw-assets' }),
     []
@@ -72,15 +76,25 @@ export default function App() {
         case 'tab-limit': toast.error(`Tab limit reached (${n.max}).`); break
         case 'popup-suppressed': toast('Max browser windows from links reached.'); break
         case 'external-auth': toast('Google sign-in was opened in your default browser.'); break
-        case 'tab-crashed': toast.error('This tab crashed and was closed.'); break
-        case 'nav-error': toast.error(`Navigation failed (${n.code}): ${n.description}`); break
+        case 'tab-crashed':
+          if (!n.crash.endedByUser) toast.error(`A tab's page ${describeCrashReason(n.crash.reason)}.`)
+          break
         case 'screen-share-error': toast.error(`Screen share error: ${n.message}`); break
         case 'media-denied': toast('Permission denied.'); break
+        case 'search-engine-discovered':
+          toast(`Added search engine ${n.engine.name}${n.engine.keyword ? ` (keyword “${n.engine.keyword}”)` : ''}. Manage it in Settings.`)
+          break
       }
     })
     return off
   }, [])
 
+  useEffect(() => {
+    void window.overlay?.getFrameMode?.().then((mode) => {
+      if (mode === 'software') toast('No GPU available, pages render in software mode.')
+    })
+  }, [])
+
   return (
     <div style={{ width: '100vw', height: '100vh' }}>
       <Toaster position="bottom-center" />
@@ -104,7 +118,7 @@ export default function App() {
               opacity: 1,
               parentId: editor.getCurrentPageId(),
               meta: {},
-              props: { w: BROWSER_W, h: BROWSER_H, url: 'https://google.com' },
+              props: { w: BROWSER_W, h: BROWSER_H, url: 'https://google.com', profile: DEFAULT_PROFILE_ID },
             }
             editor.createShape(initial as unknown as BrowserShape)
           }
@@ -113,6 +127,8 @@ export default function App() {
       >
         <WithHotkeys BROWSER_W={BROWSER_W} BROWSER_H={BROWSER_H} editorRef={editorRef} />
         <LifecycleHost editorRef={editorRef} />
+        <DownloadsHost editorRef={editorRef} />
+        <PanelHost editorRef={editorRef} />
       </Tldraw>
     </div>
   )
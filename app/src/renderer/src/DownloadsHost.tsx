@@ -0,0 +1,47 @@
+import { useEffect } from 'react'
+import type { Editor, TLShapeId } from 'tldraw'
+import { toast } from 'react-hot-toast'
+import { placeFileCard } from './Utils/canvasAssets'
+
+type Props = { editorRef: React.RefObject<Editor | null> }
+
+// Turns finished downloads and saved PDFs into file cards beside the browser
+// shape that produced them. Downloads without a live source shape only show a toast.
+export default function DownloadsHost({ editorRef }: Props): null {
+  useEffect(() => {
+    return window.overlay.onNotice((n) => {
+      if (n.kind === 'pdf-saved') {
+        const editor = editorRef.current
+        if (!editor) return
+        const sourceShapeId = editor.getShape(n.tabId as TLShapeId) ? (n.tabId as TLShapeId) : null
+        placeFileCard(editor, n.file, sourceShapeId)
+        toast.success(`Saved ${n.file.name}`)
+        return
+      }
+      if (n.kind === 'download-started') {
+        toast(`Downloading ${n.download.filename}…`)
+        return
+      }
+      if (n.kind !== 'download-done') return
+      const d = n.download
+      if (d.state === 'interrupted') {
+        toast.error(`Download failed: ${d.filename}`)
+        return
+      }
+      if (d.state !== 'completed') return
+
+      const editor = editorRef.current
+      if (!editor) return
+      const sourceShapeId = d.tabId && editor.getShape(d.tabId as TLShapeId) ? (d.tabId as TLShapeId) : null
+      placeFileCard(editor, {
+        name: d.filename,
+        filePath: d.savePath,
+        mimeType: d.mimeType,
+        size: d.totalBytes || d.receivedBytes,
+        sourceUrl: d.url,
+      }, sourceShapeId)
+    })
+  }, [editorRef])
+
+  return null
+}
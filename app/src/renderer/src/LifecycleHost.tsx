@@ -1,32 +1,55 @@
 import { useEffect, useMemo, useRef } from 'react'
 import type { Editor, TLShapeId } from 'tldraw'
+import { toast } from 'react-hot-toast'
 import { useLifecycleManager } from './useLifecycleManager'
-import type { OverlayAPI } from '../../types/overlay'
+import type { PressureLevel } from './useLifecycleManager'
+import { useSpatialAudio } from './useSpatialAudio'
+import { useFrameRateGovernor } from './useFrameRateGovernor'
+import { useRenderScale } from './useRenderScale'
+import type { FindResult, NavError, OverlayAPI, PermissionRequestInfo, ShieldState, TabCrashInfo, TabThumb } from '../../types/overlay'
+import { DEFAULT_PROFILE_ID } from './Utils/useProfiles'
+import { CRASH_STABLE_MS, crashRetryDelay } from './Utils/tabCrash'
+import type { TabCrashState } from './Utils/tabCrash'
+import { useSettings } from './Utils/useSettings'
 
 type Props = { editorRef: React.RefObject<Editor | null> }
 type Bounds = { x: number; y: number; w: number; h: number }
 type NavState = { currentUrl: string; canGoBack: boolean; canGoForward: boolean; title: string }
 type BrowserTabSnapshot = {
-  lifecycle: 'live' | 'frozen' | 'discarded'
+  lifecycle: 'live' | 'frozen' | 'discarded' | 'crashed'
   navState: NavState
   isLoading: boolean
   cursor: string
-  thumbDataUrl: string | null
+  thumbs: TabThumb[]
+  renderScale: number
+  permissionRequests: PermissionRequestInfo[]
+  find: FindResult | null
+  zoomFactor: number
+  audible: boolean
+  muted: boolean
+  playingMedia: boolean
+  blocked: number
+  shield: ShieldState
+  crash: TabCrashState | null
+  navError: NavError | null
 }
 
 declare global {
   interface Window {
     overlay: OverlayAPI
-    __tabState?: Map<string, 'live' | 'frozen' | 'discarded'>
-    __tabThumbs?: Map<string, { url: string; dataUrlWebp: string }>
+    __tabState?: Map<string, 'live' | 'frozen' | 'discarded' | 'crashed'>
+    __tabThumbs?: Map<string, { url: string; levels: TabThumb[] }>
     __activeTabs?: Set<string>
-    __tabRestoreInfo?: Map<string, { currentUrl: string; lifecycle: 'live' | 'frozen' | 'discarded'; thumbPath: string | null }>
+    __tabRestoreInfo?: Map<string, { currentUrl: string; lifecycle: 'live' | 'frozen' | 'discarded' | 'crashed'; thumbPath: string | null }>
     __browserTabSnapshots?: Map<string, BrowserTabSnapshot>
     __browserTabs?: {
       getSnapshot(tabId: string): BrowserTabSnapshot | null
       markActivity(tabId: string): void
       requestLive(shapeId: TLShapeId): Promise<string | null>
       destroyTab(tabId: string): Promise<void>
+      switchProfile(shapeId: TLShapeId): Promise<void>
+      recoverCrashed(shapeId: TLShapeId): Promise<void>
+      evictTab(shapeId: TLShapeId, state: 'frozen' | 'discarded'): Promise<void>
     }
   }
 }
@@ -34,6 +57,8 @@ declare global {
 const TAB_ACTIVITY_EVENT = 'paper:tab-activity' as const
 const TAB_STATE_EVENT = 'paper:tab-state-changed' as const
 const TAB_SYNC_EVENT = 'paper:tab-sync' as const
+// Widest poster kept per tab; smaller levels are derived from it
+const POSTER_MAX_WIDTH = 1920
 
 function isObj(x: unknown): x is Record<string, unknown> {
   return typeof x === 'object' && x !== null
@@ -56,17 +81,22 @@ function intersect(a: Bounds, b: Bounds): Bounds | null {
   return { x: x1, y: y1, w, h }
 }
 
-function readTabInfoFromShape(editor: Editor, shapeId: TLShapeId): { tabId: string; url: string } | null {
+function readTabInfoFromShape(editor: Editor, shapeId: TLShapeId): { tabId: string; url: string; profile: string } | null {
   const raw = editor.getShape(shapeId)
   if (!isObj(raw)) return null
   if ((raw as { type?: unknown }).type !== 'browser-shape') return null
   const props = (raw as { props?: unknown }).props
   if (!isObj(props)) return null
   const url = (props as { url?: unknown }).url
-  return { tabId: String(shapeId), url: typeof url === 'string' ? url : 'about:blank' }
+  const profile = (props as { profile?: unknown }).profile
+  return {
+    tabId: String(shapeId),
+    url: typeof url === 'string' ? url : 'about:blank',
+    profile: typeof profile === 'string' ? profile : DEFAULT_PROFILE_ID,
+  }
 }
 
-function emitTabState(tabId: string, state: 'live' | 'frozen' | 'discarded'): void {
+function emitTabState(tabId: string, state: 'live' | 'frozen' | 'discarded' | 'crashed'): void {
   window.dispatchEvent(new CustomEvent(TAB_STATE_EVENT, { detail: { tabId, state } }))
 }
 
@@ -76,7 +106,7 @@ function emitTabSync(tabId: string): void {
   window.dispatchEvent(new CustomEvent(TAB_SYNC_EVENT, { detail: { tabId, snapshot } }))
 }
 
-function makeSnapshot(url: string, lifecycle: 'live' | 'frozen' | 'discarded'): BrowserTabSnapshot {
+function makeSnapshot(url: string, lifecycle: 'live' | 'frozen' | 'discarded' | 'crashed', renderScale = 1): BrowserTabSnapshot {
   return {
     lifecycle,
     navState: {
@@ -87,7 +117,18 @@ function makeSnapshot(url: string, lifecycle: 'live' | 'frozen' | 'discarded'):
     },
     isLoading: false,
     cursor: 'default',
-    thumbDataUrl: null,
+    thumbs: [],
+    renderScale,
+    permissionRequests: [],
+    find: null,
+    zoomFactor: 1,
+    audible: false,
+    muted: false,
+    playingMedia: false,
+    blocked: 0,
+    shield: 'off',
+    crash: null,
+    navError: null,
   }
 }
 
@@ -97,10 +138,28 @@ if (!window.__activeTabs) window.__activeTabs = new Set()
 if (!window.__tabRestoreInfo) window.__tabRestoreInfo = new Map()
 if (!window.__browserTabSnapshots) window.__browserTabSnapshots = new Map()
 
+function pressureMessage(level: PressureLevel, frozen: number, discarded: number): string {
+  const tabs = (n: number): string => `${n} ${n === 1 ? 'tab' : 'tabs'}`
+  const parts: string[] = []
+  if (frozen > 0) parts.push(`paused ${tabs(frozen)} off screen`)
+  if (discarded > 0) parts.push(`unloaded ${tabs(discarded)} until you return to ${discarded === 1 ? 'it' : 'them'}`)
+  return `${level === 'critical' ? 'Memory is critically low' : 'Memory is low'}: ${parts.join(' and ')}.`
+}
+
 export default function LifecycleHost({ editorRef }: Props) {
   const lastInteraction = useRef<Map<TLShapeId, number>>(new Map())
   const tabToShape = useRef(new Map<string, TLShapeId>())
   const reviveInFlight = useRef(new Map<TLShapeId, Promise<void>>())
+  const crashRecovery = useRef(new Map<string, { attempts: number; recoveredAt: number; timer: number | null }>())
+  const pressure = useRef<PressureLevel>('normal')
+  // Tabs evicted since memory was last normal, summed into one toast
+  const pressureEvicted = useRef({ frozen: 0, discarded: 0 })
+  const renderScale = useRef(1)
+
+  useEffect(() => window.overlay?.onPressure?.((p) => {
+    pressure.current = p.level
+    if (p.level === 'normal') pressureEvicted.current = { frozen: 0, discarded: 0 }
+  }), [])
 
   const bumpInteractionByShapeId = (shapeId: TLShapeId): void => {
     lastInteraction.current.set(shapeId, performance.now())
@@ -120,7 +179,8 @@ export default function LifecycleHost({ editorRef }: Props) {
       window.__browserTabSnapshots?.get(tabId) ??
       makeSnapshot(
         window.__tabRestoreInfo?.get(tabId)?.currentUrl ?? fallbackUrl,
-        window.__tabState?.get(tabId) ?? 'discarded'
+        window.__tabState?.get(tabId) ?? 'discarded',
+        renderScale.current
       )
     const next: BrowserTabSnapshot = {
       ...prev,
@@ -151,6 +211,9 @@ export default function LifecycleHost({ editorRef }: Props) {
   }
 
   const destroyTab = async (tabId: string): Promise<void> => {
+    const recovery = crashRecovery.current.get(tabId)
+    if (recovery?.timer) window.clearTimeout(recovery.timer)
+    crashRecovery.current.delete(tabId)
     try {
       await window.overlay.destroy({ tabId })
     } catch { }
@@ -164,12 +227,12 @@ export default function LifecycleHost({ editorRef }: Props) {
 
   const capturePoster = async (tabId: string, url: string): Promise<void> => {
     try {
-      const res = await window.overlay.snapshot({ tabId })
+      const res = await window.overlay.snapshot({ tabId, maxWidth: POSTER_MAX_WIDTH })
       if (!res.ok) return
-      window.__tabThumbs?.set(tabId, { url, dataUrlWebp: res.dataUrl })
-      patchSnapshot(tabId, { thumbDataUrl: res.dataUrl, navState: { currentUrl: url } }, url)
+      window.__tabThumbs?.set(tabId, { url, levels: res.levels })
+      patchSnapshot(tabId, { thumbs: res.levels, navState: { currentUrl: url } }, url)
       const prev = window.__tabRestoreInfo?.get(tabId)
-      const saved = await window.overlay.saveThumb({ tabId, url, dataUrlWebp: res.dataUrl })
+      const saved = await window.overlay.saveThumb({ tabId, url, levels: res.levels })
       window.__tabRestoreInfo?.set(tabId, {
         currentUrl: url,
         lifecycle: prev?.lifecycle ?? 'frozen',
@@ -196,8 +259,8 @@ const currentState = window.__tabState?.get(tabId)
 if (currentState !== 'live') {
   const hasRestoreInfo = !!window.__tabRestoreInfo?.get(tabId)
   const res = hasRestoreInfo
-    ? await window.overlay.createTab({ shapeId: tabId, restore: true })
-    : await window.overlay.createTab({ url: info.url, shapeId: tabId })
+    ? await window.overlay.createTab({ shapeId: tabId, restore: true, profile: info.profile })
+    : await window.overlay.createTab({ url: info.url, shapeId: tabId, profile: info.profile })
   if (!res.ok) return
 }
       await window.overlay.show({ tabId })
@@ -224,6 +287,72 @@ if (currentState !== 'live') {
     }
   }
 
+  // Frozen tabs keep their view but stop painting; discarded ones are destroyed
+  // and come back from the persisted URL. Both keep a poster for the shape.
+  const evict = async (tabId: string, url: string, state: 'frozen' | 'discarded'): Promise<void> => {
+    await capturePoster(tabId, url)
+    if (state === 'frozen') {
+      await window.overlay.hide({ tabId })
+      await window.overlay.freeze({ tabId })
+    } else {
+      await window.overlay.destroy({ tabId, discard: true })
+    }
+    window.__activeTabs?.delete(tabId)
+    window.__tabState?.set(tabId, state)
+    const prev = window.__tabRestoreInfo?.get(tabId)
+    window.__tabRestoreInfo?.set(tabId, {
+      currentUrl: url,
+      lifecycle: state,
+      thumbPath: prev?.thumbPath ?? null,
+    })
+    patchSnapshot(tabId, { lifecycle: state, isLoading: false }, url)
+    emitTabState(tabId, state)
+  }
+
+  // The view is already gone in main; the shape keeps its last frame under a
+  // crash overlay until recovery recreates the tab from its persisted state.
+  const onTabCrashed = (tabId: string, crash: TabCrashInfo): void => {
+    const prev = crashRecovery.current.get(tabId)
+    if (prev?.timer) window.clearTimeout(prev.timer)
+    const attempts = prev && Date.now() - prev.recoveredAt < CRASH_STABLE_MS ? prev.attempts : 0
+    // A process ended from the task manager waits for Reload
+    const delay = crash.endedByUser ? null : crashRetryDelay(attempts)
+    const shapeId = tabToShape.current.get(tabId) ?? (tabId as TLShapeId)
+    const timer = delay === null ? null : window.setTimeout(() => { void recoverCrashed(shapeId, false) }, delay)
+    crashRecovery.current.set(tabId, { attempts, recoveredAt: prev?.recoveredAt ?? 0, timer })
+
+    window.__activeTabs?.delete(tabId)
+    window.__tabState?.set(tabId, 'crashed')
+    patchSnapshot(tabId, {
+      lifecycle: 'crashed',
+      isLoading: false,
+      cursor: 'default',
+      crash: { ...crash, attempts, retryAt: delay === null ? null : Date.now() + delay },
+    })
+    emitTabState(tabId, 'crashed')
+  }
+
+  const recoverCrashed = async (shapeId: TLShapeId, manual: boolean): Promise<void> => {
+    const tabId = String(shapeId)
+    const recovery = crashRecovery.current.get(tabId)
+    if (recovery?.timer) window.clearTimeout(recovery.timer)
+    if (window.__tabState?.get(tabId) !== 'crashed') return
+    if (!editorRef.current?.getShape(shapeId)) {
+      crashRecovery.current.delete(tabId)
+      return
+    }
+    crashRecovery.current.set(tabId, {
+      // Reload by hand starts a fresh retry budget
+      attempts: manual ? 0 : (recovery?.attempts ?? 0) + 1,
+      recoveredAt: Date.now(),
+      timer: null,
+    })
+    await revive(shapeId)
+    const crash = window.__browserTabSnapshots?.get(tabId)?.crash
+    if (window.__tabState?.get(tabId) === 'live') patchSnapshot(tabId, { crash: null })
+    else if (crash) patchSnapshot(tabId, { crash: { ...crash, retryAt: null } })
+  }
+
   useEffect(() => {
     let cancelled = false
 
@@ -238,7 +367,6 @@ if (currentState !== 'live') {
         const res = await window.overlay.getPersistedState()
         if (!res.ok || cancelled) return
 
-        const fs = require('node:fs') as typeof import('node:fs')
         for (const tab of res.tabs) {
           window.__tabState?.set(tab.tabId, tab.lifecycle)
           window.__tabRestoreInfo?.set(tab.tabId, {
@@ -247,10 +375,11 @@ if (currentState !== 'live') {
             thumbPath: tab.thumbPath,
           })
           patchSnapshot(tab.tabId, { lifecycle: tab.lifecycle }, tab.currentUrl)
-          if (!tab.thumbPath || !fs.existsSync(tab.thumbPath)) continue
-          const dataUrlWebp = `data:image/webp;base64,${fs.readFileSync(tab.thumbPath).toString('base64')}`
-          window.__tabThumbs?.set(tab.tabId, { url: tab.currentUrl, dataUrlWebp })
-          patchSnapshot(tab.tabId, { thumbDataUrl: dataUrlWebp }, tab.currentUrl)
+          // Only the paths come back here; a level's image is read when it is drawn
+          const levels = tab.thumbLevels
+          if (levels.length === 0) continue
+          window.__tabThumbs?.set(tab.tabId, { url: tab.currentUrl, levels })
+          patchSnapshot(tab.tabId, { thumbs: levels }, tab.currentUrl)
         }
       } catch { }
 
@@ -264,6 +393,7 @@ if (currentState !== 'live') {
         const shapeId = shape.id as TLShapeId
         const tabId = String(shapeId)
         const shapeUrl = (shape as { props: { url: string } }).props.url
+        const shapeProfile = readTabInfoFromShape(editor, shapeId)?.profile
         const persistedState = window.__tabState?.get(tabId)
 
         if (persistedState && persistedState !== 'live') {
@@ -276,8 +406,8 @@ if (currentState !== 'live') {
         try {
           const hasRestoreInfo = !!window.__tabRestoreInfo?.get(tabId)
           const res = hasRestoreInfo
-            ? await window.overlay.createTab({ shapeId: tabId, restore: true })
-            : await window.overlay.createTab({ url: shapeUrl, shapeId: tabId })
+            ? await window.overlay.createTab({ shapeId: tabId, restore: true, profile: shapeProfile })
+            : await window.overlay.createTab({ url: shapeUrl, shapeId: tabId, profile: shapeProfile })
           if (!res.ok || cancelled) continue
           tabToShape.current.set(res.tabId, shapeId)
           window.__tabState?.set(res.tabId, 'live')
@@ -302,6 +432,9 @@ if (currentState !== 'live') {
   }, [editorRef])
 
   useEffect(() => {
+    // The map is never replaced, so the cleanup can use this copy of the ref
+    const recoveries = crashRecovery.current
+
     const offUrl = window.overlay.onUrlUpdate(({ tabId, url }) => {
       if (!tabId || !url) return
       const prev = window.__tabRestoreInfo?.get(tabId)
@@ -323,8 +456,31 @@ if (currentState !== 'live') {
     })
 
     const offNotice = window.overlay.onNotice((notice) => {
-      if (notice.kind !== 'cursor') return
-      patchSnapshot(notice.tabId, { cursor: notice.cursor || 'default' })
+      if (notice.kind === 'cursor') {
+        patchSnapshot(notice.tabId, { cursor: notice.cursor || 'default' })
+      } else if (notice.kind === 'find-result') {
+        patchSnapshot(notice.tabId, { find: notice.result })
+      } else if (notice.kind === 'flags') {
+        patchSnapshot(notice.tabId, {
+          audible: notice.flags.audible,
+          muted: notice.flags.muted,
+          playingMedia: notice.flags.playingMedia,
+          blocked: notice.flags.blocked,
+          shield: notice.flags.shield,
+        })
+      } else if (notice.kind === 'zoom-changed') {
+        patchSnapshot(notice.tabId, { zoomFactor: notice.zoomFactor })
+      } else if (notice.kind === 'permission-request') {
+        const prev = window.__browserTabSnapshots?.get(notice.request.tabId)?.permissionRequests ?? []
+        patchSnapshot(notice.request.tabId, { permissionRequests: [...prev, notice.request] })
+      } else if (notice.kind === 'nav-error') {
+        patchSnapshot(notice.tabId, { navError: notice.error })
+      } else if (notice.kind === 'tab-crashed') {
+        onTabCrashed(notice.tabId, notice.crash)
+      } else if (notice.kind === 'permission-resolved') {
+        const prev = window.__browserTabSnapshots?.get(notice.tabId)?.permissionRequests ?? []
+        patchSnapshot(notice.tabId, { permissionRequests: prev.filter((r) => r.id !== notice.id) })
+      }
     })
 
     const bridge = {
@@ -342,11 +498,34 @@ if (currentState !== 'live') {
         return window.__tabState?.get(info.tabId) === 'live' ? info.tabId : null
       },
       destroyTab,
+      // Partitions are fixed per webContents, so a profile switch discards the
+      // view (keeping its persisted URL) and revives it in the new partition.
+      switchProfile: async (shapeId: TLShapeId): Promise<void> => {
+        const info = editorRef.current ? readTabInfoFromShape(editorRef.current, shapeId) : null
+        if (!info) return
+        await window.overlay.destroy({ tabId: info.tabId, discard: true })
+        window.__activeTabs?.delete(info.tabId)
+        window.__tabState?.set(info.tabId, 'discarded')
+        await revive(shapeId)
+      },
+      recoverCrashed: (shapeId: TLShapeId): Promise<void> => recoverCrashed(shapeId, true),
+      // Freeze or discard now, ahead of the lifecycle manager (task manager)
+      evictTab: async (shapeId: TLShapeId, state: 'frozen' | 'discarded'): Promise<void> => {
+        const info = editorRef.current ? readTabInfoFromShape(editorRef.current, shapeId) : null
+        if (!info) return
+        const current = window.__tabState?.get(info.tabId)
+        if (current === state || (current !== 'live' && current !== 'frozen')) return
+        await evict(info.tabId, info.url, state)
+      },
     }
 
     window.__browserTabs = bridge
 
     return () => {
+      for (const recovery of recoveries.values()) {
+        if (recovery.timer) window.clearTimeout(recovery.timer)
+        recovery.timer = null
+      }
       offUrl?.()
       offNav?.()
       offNotice?.()
@@ -365,7 +544,9 @@ if (currentState !== 'live') {
         w: viewport.maxX - viewport.minX,
         h: viewport.maxY - viewport.minY,
       }
-      const out: Array<{ id: TLShapeId; w: number; h: number; overlap: number }> = []
+      const halfViewportW = Math.max(1, viewportBounds.w / 2)
+      const viewportCenterX = viewportBounds.x + halfViewportW
+      const out: Array<{ id: TLShapeId; w: number; h: number; overlap: number; offsetX: number }> = []
       for (const shape of editor.getCurrentPageShapes()) {
         if (shape.type !== 'browser-shape') continue
         const id = shape.id as TLShapeId
@@ -373,7 +554,8 @@ if (currentState !== 'live') {
         if (!bounds) continue
         const overlap = intersect(bounds, viewportBounds)
         const frac = overlap ? (overlap.w * overlap.h) / Math.max(1, bounds.w * bounds.h) : 0
-        out.push({ id, w: bounds.w, h: bounds.h, overlap: Math.max(0, Math.min(1, frac)) })
+        const offsetX = (bounds.x + bounds.w / 2 - viewportCenterX) / halfViewportW
+        out.push({ id, w: bounds.w, h: bounds.h, overlap: Math.max(0, Math.min(1, frac)), offsetX })
       }
       return out
     },
@@ -387,8 +569,22 @@ if (currentState !== 'live') {
       return readTabInfoFromShape(editor, shapeId)
     },
     getLifecycleState: (tabId: string) => window.__tabState?.get(tabId),
+    getViewportScreenArea: () => {
+      const vb = editorRef.current?.getViewportScreenBounds()
+      return vb ? vb.w * vb.h : 0
+    },
+    isFocused: (shapeId: TLShapeId) => {
+      const editor = editorRef.current
+      if (!editor) return false
+      return editor.getEditingShapeId() === shapeId || editor.getOnlySelectedShapeId() === shapeId
+    },
+    isPlayingMedia: (tabId: string) => {
+      const snapshot = window.__browserTabSnapshots?.get(tabId)
+      return !!snapshot && (snapshot.audible || snapshot.playingMedia)
+    },
     now: () => performance.now(),
     getLastInteractionMs: (shapeId: TLShapeId) => lastInteraction.current.get(shapeId),
+    getPressure: () => pressure.current,
     hasThumb: (shapeId: TLShapeId) => {
       const editor = editorRef.current
       if (!editor) return false
@@ -399,51 +595,21 @@ if (currentState !== 'live') {
   }), [editorRef])
 
   const outputs = useMemo(() => ({
-    setLifecycle: (shapeId: TLShapeId, state: 'live' | 'frozen' | 'discarded'): void => {
+    setLifecycle: (shapeId: TLShapeId, state: 'live' | 'frozen' | 'discarded' | 'crashed'): void => {
       const editor = editorRef.current
       if (!editor) return
       const info = readTabInfoFromShape(editor, shapeId)
       if (!info) return
       const { tabId } = info
+      // Crashes are reported by main and recovered by the host, never requested
+      if (state === 'crashed' || window.__tabState?.get(tabId) === 'crashed') return
 
       if (state === 'live') {
         void revive(shapeId)
         return
       }
 
-      if (state === 'frozen') {
-        void (async () => {
-          await capturePoster(tabId, info.url)
-          await window.overlay.hide({ tabId })
-          await window.overlay.freeze({ tabId })
-          window.__activeTabs?.delete(tabId)
-          window.__tabState?.set(tabId, 'frozen')
-          const prev = window.__tabRestoreInfo?.get(tabId)
-          window.__tabRestoreInfo?.set(tabId, {
-            currentUrl: info.url,
-            lifecycle: 'frozen',
-            thumbPath: prev?.thumbPath ?? null,
-          })
-          patchSnapshot(tabId, { lifecycle: 'frozen', isLoading: false }, info.url)
-          emitTabState(tabId, 'frozen')
-        })()
-        return
-      }
-
-      void (async () => {
-        await capturePoster(tabId, info.url)
-        await window.overlay.destroy({ tabId, discard: true })
-        window.__activeTabs?.delete(tabId)
-        window.__tabState?.set(tabId, 'discarded')
-        const prev = window.__tabRestoreInfo?.get(tabId)
-        window.__tabRestoreInfo?.set(tabId, {
-          currentUrl: info.url,
-          lifecycle: 'discarded',
-          thumbPath: prev?.thumbPath ?? null,
-        })
-        patchSnapshot(tabId, { lifecycle: 'discarded', isLoading: false }, info.url)
-        emitTabState(tabId, 'discarded')
-      })()
+      void evict(tabId, info.url, state)
     },
 
     setPlacement: (shapeId: TLShapeId, placement: 'active' | 'background', _needThumb: boolean): void => {
@@ -461,6 +627,24 @@ if (currentState !== 'live') {
       void window.overlay.hide({ tabId })
       window.__activeTabs?.delete(tabId)
     },
+
+    reportPressureEviction: (level: PressureLevel, frozen: number, discarded: number): void => {
+      const total = pressureEvicted.current
+      total.frozen += frozen
+      total.discarded += discarded
+      toast(pressureMessage(level, total.frozen, total.discarded), { id: 'memory-pressure', duration: 6000 })
+    },
+
+    // Posters are only drawn for tabs that aren't live, so live tabs take the
+    // new scale quietly and pick it up when they are next evicted
+    setRenderScale: (scale: number): void => {
+      renderScale.current = scale
+      for (const [tabId, snapshot] of window.__browserTabSnapshots ?? []) {
+        if (snapshot.renderScale === scale) continue
+        if (snapshot.lifecycle === 'live') window.__browserTabSnapshots?.set(tabId, { ...snapshot, renderScale: scale })
+        else patchSnapshot(tabId, { renderScale: scale })
+      }
+    },
   }), [editorRef])
 
   const limits = useMemo(() => ({
@@ -468,9 +652,17 @@ if (currentState !== 'live') {
     tinyPxFloor: 48_000,
     freezeHiddenMs: 3 * 60_000,
     discardFrozenMs: 12 * 60_000,
+    pressureFreezeHiddenMs: 20_000,
+    // Matches main's memory sampling interval
+    pressureDiscardEveryMs: 3_000,
   }), [])
 
   useLifecycleManager(inputs, outputs, limits)
 
+  const settings = useSettings()
+  useSpatialAudio(inputs, settings?.spatialAudio ?? null)
+  useFrameRateGovernor(inputs)
+  useRenderScale(inputs, outputs)
+
   return null
 }
@@ -7,11 +7,23 @@ import {
   TLBaseShape,
   TLResizeInfo,
   VecLike,
+  createShapePropsMigrationIds,
+  createShapePropsMigrationSequence,
   resizeBox,
   useEditor,
   useIsEditing,
 } from 'tldraw'
+import { toast } from 'react-hot-toast'
 import { NavigationBar, NAV_BAR_HEIGHT } from '../components/NavigationBar'
+import { PermissionBar } from '../components/PermissionBar'
+import type { FindResult, NavError, PermissionRequestInfo, ShieldState, TabThumb } from '../../../types/overlay'
+import { DEFAULT_PROFILE_ID, useProfiles } from './useProfiles'
+import { placeImageFromDataUrl } from './canvasAssets'
+import { listOpenBrowserShapes, switchToBrowserShape } from './browserShapes'
+import type { TabCrashState } from './tabCrash'
+import { CrashOverlay } from '../components/CrashOverlay'
+import { NavErrorPage } from '../components/NavErrorPage'
+import { largestThumb, pickThumbLevel, thumbKey, thumbSrc } from './thumbnails'
 
 class BrowserGrabGeometry extends Rectangle2d {
   constructor(config: { x: number; y: number; width: number; height: number; isFilled: boolean }) {
@@ -30,15 +42,46 @@ class BrowserGrabGeometry extends Rectangle2d {
   }
 }
 
-export type BrowserShape = TLBaseShape<'browser-shape', { w: number; h: number; url: string }>
+export type BrowserShape = TLBaseShape<'browser-shape', { w: number; h: number; url: string; profile: string }>
+
+const browserShapeVersions = createShapePropsMigrationIds('browser-shape', {
+  AddProfile: 1,
+})
+
+const browserShapeMigrations = createShapePropsMigrationSequence({
+  sequence: [
+    {
+      id: browserShapeVersions.AddProfile,
+      up(props) {
+        props.profile = DEFAULT_PROFILE_ID
+      },
+      down(props) {
+        delete props.profile
+      },
+    },
+  ],
+})
 
 type NavState = { currentUrl: string; canGoBack: boolean; canGoForward: boolean; title: string }
 type BrowserTabSnapshot = {
-  lifecycle: 'live' | 'frozen' | 'discarded'
+  lifecycle: 'live' | 'frozen' | 'discarded' | 'crashed'
   navState: NavState
   isLoading: boolean
   cursor: string
-  thumbDataUrl: string | null
+  // Poster levels, smallest first
+  thumbs: TabThumb[]
+  // Surface pixels per CSS pixel at the current camera, for picking a poster level
+  renderScale: number
+  permissionRequests: PermissionRequestInfo[]
+  find: FindResult | null
+  zoomFactor: number
+  audible: boolean
+  muted: boolean
+  playingMedia: boolean
+  blocked: number
+  shield: ShieldState
+  crash: TabCrashState | null
+  navError: NavError | null
 }
 type SavedFitBounds = { x: number; y: number; w: number; h: number }
 type SavedCamera = { x: number; y: number; z: number }
@@ -56,6 +99,12 @@ const MIN_H = 225 + NAV_BAR_HEIGHT
 const CONTENT_BORDER = 3
 const FIT_BLEED = 2
 const TAB_SYNC_EVENT = 'paper:tab-sync' as const
+// One find query fanned out to every live browser shape
+const FIND_ALL_EVENT = 'paper:find-all' as const
+
+type FindAllDetail =
+  | { text: string; forward: boolean; findNext: boolean; sourceTabId: string }
+  | { close: true; exceptTabId?: string }
 
 function isAncestorSelected(editor: Editor, shapeId: TLShapeId): boolean {
   const selected = new Set<TLShapeId>(editor.getSelectedShapeIds())
@@ -138,7 +187,8 @@ function toCssCursor(cursor: string | undefined): string {
 }
 
 // Always reads fresh from the DOM — never stale due to closure capture.
-// surfaceW/H must match exactly what was last sent to overlay:set-bounds.
+// surfaceW/H must match exactly what was last sent to overlay:set-bounds; the
+// point is in CSS layout pixels and main scales it to the surface's render scale.
 function toSurfacePoint(
   el: HTMLDivElement,
   surfaceW: number,
@@ -189,20 +239,43 @@ function makeSnapshot(url: string): BrowserTabSnapshot {
     },
     isLoading: false,
     cursor: 'default',
-    thumbDataUrl: null,
+    thumbs: [],
+    renderScale: 1,
+    permissionRequests: [],
+    find: null,
+    zoomFactor: 1,
+    audible: false,
+    muted: false,
+    playingMedia: false,
+    blocked: 0,
+    shield: 'off',
+    crash: null,
+    navError: null,
   }
 }
 
+// Poster level each canvas shows, so settling the camera only redraws when the level changes
+const drawnThumbs = new WeakMap<HTMLCanvasElement, string>()
+// Level each canvas is loading, so a slow read can't paint over a newer level
+const pendingThumbs = new WeakMap<HTMLCanvasElement, string>()
+
 async function drawThumbToCanvas(
   canvas: HTMLCanvasElement | null,
-  thumbDataUrl: string | null,
+  thumbs: TabThumb[],
+  targetWidth: number,
   fallbackSize: { width: number; height: number }
 ): Promise<void> {
-  if (!canvas || !thumbDataUrl) return
+  const thumb = pickThumbLevel(thumbs, targetWidth)
+  if (!canvas || !thumb) return
+  const key = thumbKey(thumb)
+  if (drawnThumbs.get(canvas) === key) return
   const ctx = canvas.getContext('2d', { alpha: false, desynchronized: true })
   if (!ctx) return
+  pendingThumbs.set(canvas, key)
+  const src = await thumbSrc(thumb)
+  if (!src || pendingThumbs.get(canvas) !== key) return
   const img = new Image()
-  img.src = thumbDataUrl
+  img.src = src
   try {
     if (typeof img.decode === 'function') {
       await img.decode()
@@ -222,6 +295,7 @@ async function drawThumbToCanvas(
     canvas.height = height
   }
   ctx.drawImage(img, 0, 0, width, height)
+  drawnThumbs.set(canvas, key)
 }
 
 function drawFrameToCanvas(
@@ -233,6 +307,7 @@ function drawFrameToCanvas(
     if (!canvas) return
     const ctx = canvas.getContext('2d', { alpha: false, desynchronized: true })
     if (!ctx) return
+    drawnThumbs.delete(canvas)
     const videoFrame = importedSharedTexture.getVideoFrame()
     try {
       if (canvas.width !== videoFrame.displayWidth || canvas.height !== videoFrame.displayHeight) {
@@ -250,6 +325,7 @@ function drawFrameToCanvas(
 
 export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
   static override type = 'browser-shape' as const
+  static override migrations = browserShapeMigrations
   override isAspectRatioLocked = () => false
   override canResize = () => true
   override canEdit = () => true
@@ -263,7 +339,7 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
   }
 
   override getDefaultProps(): BrowserShape['props'] {
-    return { w: 1200, h: 600 + NAV_BAR_HEIGHT, url: 'https://google.com' }
+    return { w: 1200, h: 600 + NAV_BAR_HEIGHT, url: 'https://google.com', profile: DEFAULT_PROFILE_ID }
   }
 
   override onResize(shape: BrowserShape, info: TLResizeInfo<BrowserShape>) {
@@ -287,6 +363,7 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
       () => window.__browserTabs?.getSnapshot(tabId) ?? makeSnapshot(shape.props.url)
     )
     const [fitMode, setFitMode] = useState(false)
+    const profiles = useProfiles()
 
     const canvasRef = useRef<HTMLCanvasElement | null>(null)
     const contentRef = useRef<HTMLDivElement | null>(null)
@@ -320,8 +397,8 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
 
     useEffect(() => {
       if (tabSnapshot.lifecycle === 'live') return
-      void drawThumbToCanvas(canvasRef.current, tabSnapshot.thumbDataUrl, { width: contentW, height: contentH })
-    }, [contentH, contentW, tabSnapshot.lifecycle, tabSnapshot.thumbDataUrl])
+      void drawThumbToCanvas(canvasRef.current, tabSnapshot.thumbs, contentW * tabSnapshot.renderScale, { width: contentW, height: contentH })
+    }, [contentH, contentW, tabSnapshot.lifecycle, tabSnapshot.thumbs, tabSnapshot.renderScale])
 
     useEffect(() => {
       return () => {
@@ -355,6 +432,14 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
       setTabSnapshot((prev) => ({ ...prev, isLoading }))
     }
 
+    const onProfileChange = async (profileId: string): Promise<void> => {
+      const current = editor.getShape(shape.id) as BrowserShape | undefined
+      if (!current || current.props.profile === profileId) return
+      editor.updateShapes([{ id: shape.id, type: 'browser-shape', props: { ...current.props, profile: profileId } }])
+      setLoading(true)
+      await window.__browserTabs?.switchProfile(shape.id as TLShapeId)
+    }
+
     // ── Input forwarding ──────────────────────────────────────────────────────
     // Registered once on mount (no liveTabId dep) — handlers read liveTabIdRef
     // so they always use the current tab ID without re-registering.
@@ -365,6 +450,76 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
     const fitModeRef = useRef(false)
     fitModeRef.current = fitMode
 
+    // ── Find in page ──────────────────────────────────────────────────────────
+    const [findOpen, setFindOpen] = useState(false)
+    const [findQuery, setFindQuery] = useState('')
+    const [findAllTabs, setFindAllTabs] = useState(false)
+    // Results from an earlier search session (or before a reopen) are ignored.
+    // Kept in state so a result that beats the invoke reply shows once it resolves.
+    const [findRequestId, setFindRequestId] = useState<number | null>(null)
+
+    const runFind = async (text: string, forward: boolean, findNext: boolean, wake: boolean): Promise<void> => {
+      if (!api) return
+      const id = liveTabIdRef.current ?? (wake ? await requestLive() : null)
+      if (!id) return
+      if (!text) {
+        setFindRequestId(null)
+        await api.stopFindInPage({ tabId: id, action: 'clearSelection' })
+        return
+      }
+      const res = await api.findInPage({ tabId: id, text, forward, findNext })
+      if (res.ok) setFindRequestId(res.requestId)
+    }
+    const runFindRef = useRef(runFind)
+    runFindRef.current = runFind
+
+    const submitFind = (text: string, forward: boolean, findNext: boolean): void => {
+      if (!findAllTabs) {
+        void runFind(text, forward, findNext, true)
+        return
+      }
+      const detail: FindAllDetail = { text, forward, findNext, sourceTabId: tabId }
+      window.dispatchEvent(new CustomEvent(FIND_ALL_EVENT, { detail }))
+    }
+
+    const closeFind = (): void => {
+      setFindOpen(false)
+      setFindRequestId(null)
+      const id = liveTabIdRef.current
+      if (id) void api?.stopFindInPage({ tabId: id, action: 'keepSelection' })
+      if (findAllTabs) {
+        const detail: FindAllDetail = { close: true, exceptTabId: tabId }
+        window.dispatchEvent(new CustomEvent(FIND_ALL_EVENT, { detail }))
+      }
+    }
+
+    useEffect(() => {
+      const onFindAll = (event: Event): void => {
+        const detail = (event as CustomEvent<FindAllDetail>).detail
+        if (!detail) return
+        if ('close' in detail) {
+          if (detail.exceptTabId === tabId) return
+          setFindOpen(false)
+          setFindAllTabs(false)
+          setFindRequestId(null)
+          const id = liveTabIdRef.current
+          if (id) void window.overlay?.stopFindInPage({ tabId: id, action: 'keepSelection' })
+          return
+        }
+        const isSource = detail.sourceTabId === tabId
+        if (!isSource && !liveTabIdRef.current) return
+        setFindOpen(true)
+        setFindAllTabs(true)
+        setFindQuery(detail.text)
+        void runFindRef.current(detail.text, detail.forward, detail.findNext, isSource)
+      }
+      window.addEventListener(FIND_ALL_EVENT, onFindAll as EventListener)
+      return () => window.removeEventListener(FIND_ALL_EVENT, onFindAll as EventListener)
+    }, [tabId])
+
+    const findResult =
+      tabSnapshot.find && tabSnapshot.find.requestId === findRequestId ? tabSnapshot.find : null
+
     useEffect(() => {
       const el = contentRef.current
       if (!el || !api) return
@@ -464,10 +619,22 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
         void api.sendInput?.({ tabId: tid, event: { type: 'mouseEnter', x: point.x, y: point.y } })
       }
 
+      const isFindShortcut = (e: KeyboardEvent): boolean =>
+        (e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f'
+
       const onKeyDown = (e: KeyboardEvent): void => {
         const tid = liveTabIdRef.current
         if (!tid) return
         markActivity()
+        // Ctrl/Cmd+F opens the find bar instead of reaching the page;
+        // with Shift it searches every live tab.
+        if (isFindShortcut(e)) {
+          e.stopPropagation()
+          e.preventDefault()
+          setFindAllTabs(e.shiftKey)
+          setFindOpen(true)
+          return
+        }
         const keyCode = toElectronKeyCode(e)
         if (!keyCode) return
         e.stopPropagation()
@@ -482,6 +649,7 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
         const tid = liveTabIdRef.current
         if (!tid) return
         markActivity()
+        if (isFindShortcut(e)) return
         const keyCode = toElectronKeyCode(e)
         if (!keyCode) return
         e.stopPropagation()
@@ -698,7 +866,7 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
           pointerEvents: 'auto',
           cursor: fitMode ? 'default' : isEditing ? 'default' : 'move',
         }}
-        onPointerDownCapture={async (e) => {
+        onPointerDownCapture={async () => {
           // If the tab isn't live yet, revive it and then manually re-fire focus
           // so the input handlers are ready before the user's click reaches the overlay.
           if (!liveTabIdRef.current) {
@@ -756,6 +924,8 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
               navState={tabSnapshot.navState}
               isLoading={tabSnapshot.isLoading}
               onInteract={markActivity}
+              getOpenShapes={() => listOpenBrowserShapes(editor, shape.id as TLShapeId)}
+              onSwitchToShape={(id) => switchToBrowserShape(editor, id)}
               onUrlChange={async (url) => {
                 if (!api) return
                 const id = await requestLive()
@@ -790,9 +960,99 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
               }}
               fitMode={fitMode}
               onToggleFit={onToggleFit}
+              profileId={shape.props.profile ?? DEFAULT_PROFILE_ID}
+              profiles={profiles}
+              onProfileChange={(profileId) => { void onProfileChange(profileId) }}
+              onCreateProfile={async (name) => {
+                const res = await api?.createProfile({ name })
+                if (res?.ok) await onProfileChange(res.profile.id)
+              }}
+              audible={tabSnapshot.audible}
+              muted={tabSnapshot.muted}
+              onToggleMute={() => {
+                if (liveTabId) void api?.setMuted({ tabId: liveTabId, muted: !tabSnapshot.muted })
+              }}
+              onMuteOthers={() => { void api?.muteOtherTabs({ tabId }) }}
+              shield={tabSnapshot.shield}
+              blockedCount={tabSnapshot.blocked}
+              onToggleShield={async () => {
+                const id = await requestLive()
+                if (!id || !api) return
+                const res = await api.toggleShield({ tabId: id })
+                if (!res.ok) toast.error(res.error)
+              }}
+              zoomFactor={tabSnapshot.zoomFactor}
+              onZoomReset={async () => {
+                const id = await requestLive()
+                if (id) await api?.setZoom({ tabId: id, zoomFactor: 1 })
+              }}
+              onSavePdf={async (options) => {
+                const id = await requestLive()
+                if (!id || !api) return
+                const res = await api.printToPdf({ tabId: id, ...options })
+                if (!res.ok) toast.error(`Could not save PDF: ${res.error}`)
+              }}
+              onCaptureFullPage={async () => {
+                const id = await requestLive()
+                if (!id || !api) return
+                const res = await api.captureFullPage({ tabId: id })
+                if (!res.ok) {
+                  toast.error(`Could not capture page: ${res.error}`)
+                  return
+                }
+                const placed = await placeImageFromDataUrl(editor, res.dataUrl, {
+                  name: `${res.title || res.url}.jpg`,
+                  mimeType: res.mimeType,
+                  sourceShapeId: shape.id as TLShapeId,
+                  meta: { sourceUrl: res.url, capturedAt: res.capturedAt },
+                })
+                if (!placed) toast.error('Could not place the capture on the canvas')
+              }}
+              find={findOpen ? {
+                query: findQuery,
+                result: findResult,
+                allTabs: findAllTabs,
+                onQueryChange: (query) => {
+                  setFindQuery(query)
+                  submitFind(query, true, true)
+                },
+                onStep: (forward) => submitFind(findQuery, forward, false),
+                onToggleAllTabs: () => {
+                  const next = !findAllTabs
+                  setFindAllTabs(next)
+                  if (next && findQuery) {
+                    const detail: FindAllDetail = { text: findQuery, forward: true, findNext: true, sourceTabId: tabId }
+                    window.dispatchEvent(new CustomEvent(FIND_ALL_EVENT, { detail }))
+                  } else if (!next) {
+                    const detail: FindAllDetail = { close: true, exceptTabId: tabId }
+                    window.dispatchEvent(new CustomEvent(FIND_ALL_EVENT, { detail }))
+                  }
+                },
+                onClose: closeFind,
+                onInteract: markActivity,
+              } : null}
             />
           </div>
 
+          {tabSnapshot.permissionRequests.length > 0 && (
+            <div
+              style={{
+                position: 'absolute',
+                top: NAV_BAR_HEIGHT,
+                left: CONTENT_BORDER,
+                right: CONTENT_BORDER,
+                zIndex: 3,
+                pointerEvents: 'auto',
+              }}
+            >
+              <PermissionBar
+                request={tabSnapshot.permissionRequests[0]}
+                pendingCount={tabSnapshot.permissionRequests.length}
+                onInteract={markActivity}
+              />
+            </div>
+          )}
+
           <div
             ref={contentRef}
             tabIndex={0}
@@ -822,6 +1082,31 @@ export class BrowserShapeUtil extends ShapeUtil<BrowserShape> {
                 cursor: browserCursor,
               }}
             />
+            {tabSnapshot.navError && tabSnapshot.lifecycle !== 'crashed' && (
+              <NavErrorPage
+                error={tabSnapshot.navError}
+                cached={tabSnapshot.thumbs.length > 0
+                  ? { thumb: largestThumb(tabSnapshot.thumbs)!, url: window.__tabThumbs?.get(tabId)?.url ?? null }
+                  : null}
+                onRetry={async () => {
+                  const url = tabSnapshot.navError?.url
+                  try {
+                    const id = await requestLive()
+                    if (!id || !url || !api) return
+                    const res = await api.navigate({ tabId: id, url })
+                    if (!res.ok) toast.error(`Could not reload page: ${res.error}`)
+                  } catch (e) {
+                    toast.error(`Could not reload page: ${e instanceof Error ? e.message : String(e)}`)
+                  }
+                }}
+              />
+            )}
+            {tabSnapshot.lifecycle === 'crashed' && tabSnapshot.crash && (
+              <CrashOverlay
+                crash={tabSnapshot.crash}
+                onReload={() => { void window.__browserTabs?.recoverCrashed(shape.id as TLShapeId) }}
+              />
+            )}
           </div>
         </div>
 
@@ -0,0 +1,125 @@
+import type { TLShapeId } from 'tldraw'
+import { HTMLContainer, Rectangle2d, ShapeUtil, TLBaseShape, TLResizeInfo, resizeBox, useEditor } from 'tldraw'
+import { FILE_CARD_H, FILE_CARD_W, placeImageFromFile } from './canvasAssets'
+import { panelButtonStyle } from './panels'
+
+export type FileCardShape = TLBaseShape<
+  'file-card',
+  { w: number; h: number; name: string; filePath: string; mimeType: string; size: number; sourceUrl: string }
+>
+
+function formatBytes(n: number): string {
+  if (!Number.isFinite(n) || n <= 0) return ''
+  const units = ['B', 'KB', 'MB', 'GB']
+  let v = n
+  let i = 0
+  while (v >= 1024 && i < units.length - 1) { v /= 1024; i++ }
+  return `${v.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toUpperCase().slice(0, 4) : 'FILE'
+}
+
+export class FileCardShapeUtil extends ShapeUtil<FileCardShape> {
+  static override type = 'file-card' as const
+  override canResize = (): boolean => true
+  override isAspectRatioLocked = (): boolean => false
+
+  override getDefaultProps(): FileCardShape['props'] {
+    return { w: FILE_CARD_W, h: FILE_CARD_H, name: '', filePath: '', mimeType: '', size: 0, sourceUrl: '' }
+  }
+
+  override getGeometry(shape: FileCardShape): Rectangle2d {
+    return new Rectangle2d({ width: shape.props.w, height: shape.props.h, isFilled: true })
+  }
+
+  override onResize(shape: FileCardShape, info: TLResizeInfo<FileCardShape>): FileCardShape {
+    return resizeBox(shape, info, { minWidth: 200, minHeight: FILE_CARD_H })
+  }
+
+  override indicator(shape: FileCardShape): React.JSX.Element {
+    return <rect width={shape.props.w} height={shape.props.h} rx={8} ry={8} />
+  }
+
+  override component(shape: FileCardShape): React.JSX.Element {
+    const editor = useEditor()
+    const { name, filePath, mimeType, size, sourceUrl } = shape.props
+    const isImage = mimeType.startsWith('image/')
+    const isPdf = mimeType === 'application/pdf'
+
+    const act = (fn: () => void) => (e: React.PointerEvent): void => {
+      e.stopPropagation()
+      fn()
+    }
+
+    return (
+      <HTMLContainer
+        style={{
+          width: shape.props.w,
+          height: shape.props.h,
+          display: 'flex',
+          gap: '12px',
+          alignItems: 'center',
+          padding: '12px',
+          boxSizing: 'border-box',
+          background: 'white',
+          border: '1px solid #dee2e6',
+          borderRadius: '8px',
+          boxShadow: '0 2px 10px rgba(0,0,0,0.10)',
+          fontFamily: 'system-ui, sans-serif',
+          pointerEvents: 'all',
+        }}
+      >
+        <div
+          style={{
+            flex: '0 0 44px',
+            height: '56px',
+            borderRadius: '4px',
+            background: isPdf ? '#e03131' : isImage ? '#1098ad' : '#495057',
+            color: 'white',
+            fontSize: '11px',
+            fontWeight: 700,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+          }}
+        >
+          {extensionOf(name)}
+        </div>
+        <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <div title={name} style={{ fontSize: '13px', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {name}
+          </div>
+          <div title={sourceUrl} style={{ fontSize: '11px', color: '#868e96', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {[formatBytes(size), sourceUrl].filter(Boolean).join(' · ')}
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button type="button" style={panelButtonStyle} onPointerDown={act(() => { void window.overlay.openFile({ filePath }) })}>
+              Open
+            </button>
+            <button type="button" style={panelButtonStyle} onPointerDown={act(() => { void window.overlay.openFile({ filePath, reveal: true }) })}>
+              Show in folder
+            </button>
+            {isImage && (
+              <button
+                type="button"
+                style={panelButtonStyle}
+                onPointerDown={act(() => {
+                  void placeImageFromFile(editor, filePath, {
+                    mimeType,
+                    sourceShapeId: shape.id as TLShapeId,
+                    meta: { sourceUrl },
+                  })
+                })}
+              >
+                Place image
+              </button>
+            )}
+          </div>
+        </div>
+      </HTMLContainer>
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { createShapeId } from 'tldraw'
+import type { Editor, TLShapeId } from 'tldraw'
+import type { BrowserShape } from './BrowserShapeUtil'
+import { findPlacementNear } from './placement'
+import { DEFAULT_PROFILE_ID } from './useProfiles'
+
+export const BROWSER_W = 1200
+export const BROWSER_H = 660
+
+function selectedBrowser(editor: Editor): BrowserShape | undefined {
+  return editor.getSelectedShapes().find((s): s is BrowserShape => s.type === 'browser-shape')
+}
+
+/**
+ * Opens `url` in a new browser shape beside `anchorId`, the selected browser,
+ * or near the viewport center, e.g. when reopening history or bookmark entries.
+ */
+export function placeBrowserShape(
+  editor: Editor,
+  url: string,
+  profile?: string | null,
+  anchorId?: TLShapeId | null
+): TLShapeId {
+  const selected = selectedBrowser(editor)
+  const anchor = anchorId ? editor.getShapePageBounds(anchorId) : null
+  const w = selected?.props.w ?? BROWSER_W
+  const h = selected?.props.h ?? BROWSER_H
+  const { x, y } = findPlacementNear(
+    editor,
+    anchor
+      ? { x: anchor.x, y: anchor.y, w: anchor.w, h: anchor.h }
+      : selected ? { x: selected.x, y: selected.y, w: selected.props.w, h: selected.props.h } : null,
+    w,
+    h
+  )
+  const id = createShapeId()
+  editor.createShape<BrowserShape>({
+    id,
+    type: 'browser-shape',
+    x,
+    y,
+    props: { w, h, url, profile: profile ?? selected?.props.profile ?? DEFAULT_PROFILE_ID },
+  })
+  return id
+}
+
+const GRID_GAP = 32
+
+// Right edge of the furthest shape overlapping the rect, or null when it is free
+function blockingRight(editor: Editor, x: number, y: number, w: number, h: number): number | null {
+  let right: number | null = null
+  for (const shape of editor.getCurrentPageShapes()) {
+    const b = editor.getShapePageBounds(shape.id)
+    if (!b || b.x >= x + w || b.x + b.w <= x || b.y >= y + h || b.y + b.h <= y) continue
+    right = Math.max(right ?? b.x + b.w, b.x + b.w)
+  }
+  return right
+}
+
+/**
+ * Places one browser shape per entry in a near-square grid whose first cell
+ * sits beside the selected browser (or near the viewport center). The grid is
+ * not limited to the viewport; it moves right until it covers no other shape.
+ */
+export function layOutBrowserShapes(editor: Editor, entries: Array<{ url: string; profile?: string | null }>): TLShapeId[] {
+  if (entries.length === 0) return []
+  const selected = selectedBrowser(editor)
+  const w = selected?.props.w ?? BROWSER_W
+  const h = selected?.props.h ?? BROWSER_H
+  const cols = Math.ceil(Math.sqrt(entries.length))
+  const rows = Math.ceil(entries.length / cols)
+  const gridW = cols * (w + GRID_GAP) - GRID_GAP
+  const gridH = rows * (h + GRID_GAP) - GRID_GAP
+
+  const origin = findPlacementNear(
+    editor,
+    selected ? { x: selected.x, y: selected.y, w: selected.props.w, h: selected.props.h } : null,
+    w,
+    h
+  )
+  let x = origin.x
+  for (let right = blockingRight(editor, x, origin.y, gridW, gridH); right !== null; right = blockingRight(editor, x, origin.y, gridW, gridH)) {
+    x = right + GRID_GAP
+  }
+
+  const ids: TLShapeId[] = []
+  editor.run(() => {
+    entries.forEach((entry, i) => {
+      const id = createShapeId()
+      editor.createShape<BrowserShape>({
+        id,
+        type: 'browser-shape',
+        x: x + (i % cols) * (w + GRID_GAP),
+        y: origin.y + Math.floor(i / cols) * (h + GRID_GAP),
+        props: { w, h, url: entry.url, profile: entry.profile ?? selected?.props.profile ?? DEFAULT_PROFILE_ID },
+      })
+      ids.push(id)
+    })
+  })
+  return ids
+}
+
+export interface OpenBrowserShape {
+  shapeId: TLShapeId
+  url: string
+  title: string
+}
+
+/** Browser shapes on the current page other than `exceptId`, with what they show now. */
+export function listOpenBrowserShapes(editor: Editor, exceptId?: TLShapeId): OpenBrowserShape[] {
+  return editor
+    .getCurrentPageShapes()
+    .filter((s): s is BrowserShape => s.type === 'browser-shape' && s.id !== exceptId)
+    .map((s) => {
+      const nav = window.__browserTabSnapshots?.get(String(s.id))?.navState
+      return { shapeId: s.id, url: nav?.currentUrl || s.props.url, title: nav?.title ?? '' }
+    })
+}
+
+/** Selects a browser shape and glides the camera to it. */
+export function switchToBrowserShape(editor: Editor, shapeId: TLShapeId): void {
+  const bounds = editor.getShapePageBounds(shapeId)
+  if (!bounds) return
+  editor.select(shapeId)
+  editor.bringToFront([shapeId])
+  editor.zoomToBounds(bounds, { inset: 48, animation: { duration: 400 } })
+  window.__browserTabs?.markActivity(String(shapeId))
+}
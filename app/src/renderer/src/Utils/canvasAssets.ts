@@ -0,0 +1,103 @@
+import { AssetRecordType, createShapeId } from 'tldraw'
+import type { Editor, JsonObject, TLImageShape, TLShapeId } from 'tldraw'
+import type { FileCardShape } from './FileCardShapeUtil'
+import { findPlacementNear } from './placement'
+import type { PlacementRect } from './placement'
+
+export const FILE_CARD_W = 300
+export const FILE_CARD_H = 92
+const MAX_IMAGE_W = 1200
+
+export interface FileCardInput {
+  name: string
+  filePath: string
+  mimeType: string
+  size: number
+  sourceUrl: string
+}
+
+function anchorRectFor(editor: Editor, shapeId: TLShapeId | null): PlacementRect | null {
+  if (!shapeId) return null
+  const b = editor.getShapePageBounds(shapeId)
+  return b ? { x: b.x, y: b.y, w: b.w, h: b.h } : null
+}
+
+/** Drops a file card next to the shape that produced the file. */
+export function placeFileCard(editor: Editor, file: FileCardInput, sourceShapeId: TLShapeId | null): TLShapeId {
+  const id = createShapeId()
+  const { x, y } = findPlacementNear(editor, anchorRectFor(editor, sourceShapeId), FILE_CARD_W, FILE_CARD_H)
+  editor.createShape<FileCardShape>({
+    id,
+    type: 'file-card',
+    x,
+    y,
+    props: { w: FILE_CARD_W, h: FILE_CARD_H, ...file },
+    meta: { sourceShapeId: sourceShapeId ?? null, createdAt: Date.now() },
+  })
+  return id
+}
+
+function loadImageSize(src: string): Promise<{ w: number; h: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve({ w: img.naturalWidth, h: img.naturalHeight })
+    img.onerror = () => reject(new Error('image-load-failed'))
+    img.src = src
+  })
+}
+
+/** Inserts an image as a tldraw asset + image shape near `sourceShapeId`. */
+export async function placeImageFromDataUrl(
+  editor: Editor,
+  dataUrl: string,
+  opts: { name: string; mimeType: string; sourceShapeId: TLShapeId | null; meta?: JsonObject }
+): Promise<TLShapeId | null> {
+  let size: { w: number; h: number }
+  try {
+    size = await loadImageSize(dataUrl)
+  } catch {
+    return null
+  }
+  if (size.w <= 0 || size.h <= 0) return null
+
+  const assetId = AssetRecordType.createId()
+  editor.createAssets([
+    AssetRecordType.create({
+      id: assetId,
+      type: 'image',
+      props: {
+        name: opts.name,
+        src: dataUrl,
+        w: size.w,
+        h: size.h,
+        mimeType: opts.mimeType,
+        isAnimated: opts.mimeType === 'image/gif',
+      },
+    }),
+  ])
+
+  const scale = Math.min(1, MAX_IMAGE_W / size.w)
+  const w = Math.round(size.w * scale)
+  const h = Math.round(size.h * scale)
+  const { x, y } = findPlacementNear(editor, anchorRectFor(editor, opts.sourceShapeId), w, h)
+  const id = createShapeId()
+  editor.createShape<TLImageShape>({
+    id,
+    type: 'image',
+    x,
+    y,
+    props: { assetId, w, h },
+    meta: { sourceShapeId: opts.sourceShapeId ?? null, ...(opts.meta ?? {}) },
+  })
+  return id
+}
+
+export async function placeImageFromFile(
+  editor: Editor,
+  filePath: string,
+  opts: { mimeType: string; sourceShapeId: TLShapeId | null; meta?: JsonObject }
+): Promise<TLShapeId | null> {
+  const res = await window.overlay.readFileDataUrl({ filePath, mimeType: opts.mimeType })
+  if (!res.ok) return null
+  return placeImageFromDataUrl(editor, res.dataUrl, { ...opts, name: res.name })
+}
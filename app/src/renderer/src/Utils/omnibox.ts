@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react'
+import type { TLShapeId } from 'tldraw'
+import type { Bookmark, HistorySuggestion, SearchEngines } from '../../../types/overlay'
+import type { OpenBrowserShape } from './browserShapes'
+import { useBookmarks } from './useBookmarks'
+import { defaultEngine, looksLikeAddress, matchKeyword, resolveAddressInput, useSearchEngines } from './useSearchEngines'
+
+// Address-bar suggestions. History is pre-filtered in main; bookmarks, open
+// shapes and search keywords are matched here, then everything is ranked
+// with one scoring function so the sources interleave sensibly.
+
+export type OmniboxSuggestionKind = 'url' | 'search' | 'keyword' | 'shape' | 'bookmark' | 'history'
+
+export interface OmniboxSuggestion {
+  kind: OmniboxSuggestionKind
+  // Where accepting the row navigates
+  url: string
+  title: string
+  // Text the address bar shows while the row is highlighted
+  fill: string
+  shapeId?: TLShapeId
+}
+
+export interface OmniboxResult {
+  // Typed text plus the inline-completed remainder, when there is one
+  completion: string | null
+  suggestions: OmniboxSuggestion[]
+}
+
+interface OmniboxSources {
+  history: HistorySuggestion[]
+  bookmarks: Bookmark[]
+  shapes: OpenBrowserShape[]
+  registry: SearchEngines | null
+}
+
+const MAX_SUGGESTIONS = 8
+const HISTORY_CANDIDATES = 24
+const EMPTY: OmniboxResult = { completion: null, suggestions: [] }
+
+// Ties between sources prefer what is already on the canvas
+const SOURCE_BONUS: Record<'shape' | 'bookmark' | 'history', number> = { shape: 40, bookmark: 25, history: 0 }
+
+function bareUrl(url: string): string {
+  return url.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '')
+}
+
+function urlKey(url: string): string {
+  return bareUrl(url).replace(/\/$/, '')
+}
+
+/** 0 when some word is missing; otherwise higher for prefix and word-start hits. */
+function matchScore(text: string, words: string[], url: string, title: string): number {
+  const bare = bareUrl(url)
+  const host = bare.split('/')[0]
+  const lowerTitle = title.toLowerCase()
+  let score = 0
+  for (const w of words) {
+    if (host.startsWith(w) || host.includes(`.${w}`)) score += 40
+    else if (lowerTitle.startsWith(w) || lowerTitle.includes(` ${w}`)) score += 30
+    else if (bare.includes(w) || lowerTitle.includes(w)) score += 10
+    else return 0
+  }
+  if (bare.startsWith(bareUrl(text))) score += 200
+  return score
+}
+
+function frecencyBonus(h: HistorySuggestion): number {
+  return Math.min(80, Math.round(Math.log2(1 + h.frecency) * 6))
+}
+
+/**
+ * Completes `typed` to the host, or the whole address once the typed text
+ * reaches past the host, of `url`. Null when `url` does not start with it.
+ */
+function inlineCompletion(typed: string, url: string): string | null {
+  const lower = typed.toLowerCase()
+  const full = /^[a-z]+:\/\//.test(lower) ? url.toLowerCase() : /^www\./.test(lower) ? url.toLowerCase().replace(/^[a-z]+:\/\//, '') : bareUrl(url)
+  if (!full.startsWith(lower) || full.length === lower.length) return null
+  const hostEnd = full.indexOf('/', /^[a-z]+:\/\//.exec(full)?.[0].length ?? 0)
+  const target = hostEnd !== -1 && lower.length < hostEnd ? full.slice(0, hostEnd) : full.replace(/\/$/, '')
+  return target.length > lower.length ? typed + target.slice(lower.length) : null
+}
+
+/** Ranks every source against `typed`. The first row is always what Enter does. */
+export function rankSuggestions(typed: string, sources: OmniboxSources, allowCompletion: boolean): OmniboxResult {
+  const text = typed.trim()
+  if (!text) return EMPTY
+  const words = text.toLowerCase().split(/\s+/)
+  const { registry } = sources
+
+  const candidates = new Map<string, OmniboxSuggestion & { score: number }>()
+  const consider = (kind: 'shape' | 'bookmark' | 'history', url: string, title: string, extra: number, shapeId?: TLShapeId): void => {
+    const score = matchScore(text, words, url, title)
+    if (score === 0) return
+    const key = urlKey(url)
+    const total = score + extra + SOURCE_BONUS[kind]
+    const prev = candidates.get(key)
+    if (!prev) {
+      candidates.set(key, { kind, url, title, fill: url, shapeId, score: total })
+      return
+    }
+    if (total > prev.score) Object.assign(prev, { kind, url, fill: url, score: total })
+    if (!prev.title) prev.title = title
+  }
+  for (const h of sources.history) consider('history', h.url, h.title, frecencyBonus(h))
+  for (const b of sources.bookmarks) consider('bookmark', b.url, b.title, 0)
+  for (const s of sources.shapes) {
+    // A page that is already open becomes "switch to shape" even when only its history title matched
+    const prev = candidates.get(urlKey(s.url))
+    if (prev?.kind === 'shape') continue
+    if (prev) Object.assign(prev, { kind: 'shape', url: s.url, fill: s.url, shapeId: s.shapeId, score: prev.score + SOURCE_BONUS.shape })
+    else consider('shape', s.url, s.title, 0, s.shapeId)
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => b.score - a.score)
+  const keyword = matchKeyword(text, registry)
+
+  // Inline completion only from the best URL match, and never over a keyword search
+  let completion: string | null = null
+  if (allowCompletion && !keyword && !/\s/.test(typed) && ranked[0]) completion = inlineCompletion(typed, ranked[0].url)
+
+  const suggestions: OmniboxSuggestion[] = []
+  const effective = completion ?? text
+  const target = resolveAddressInput(effective, registry)
+  if (keyword) {
+    suggestions.push({ kind: 'search', url: target, title: `Search ${keyword.engine.name} for “${keyword.query}”`, fill: text })
+  } else if (looksLikeAddress(effective)) {
+    suggestions.push({ kind: 'url', url: target, title: effective, fill: effective })
+  } else {
+    suggestions.push({ kind: 'search', url: target, title: `Search ${defaultEngine(registry)?.name ?? 'the web'} for “${effective}”`, fill: effective })
+  }
+
+  // A lone word that starts a keyword offers the keyword, e.g. "gi" → "gh "
+  if (!keyword && words.length === 1 && registry) {
+    for (const engine of registry.engines) {
+      if (engine.keyword && engine.keyword.startsWith(words[0]) && suggestions.length < 3) {
+        suggestions.push({ kind: 'keyword', url: '', title: `${engine.keyword} — Search ${engine.name}`, fill: `${engine.keyword} ` })
+      }
+    }
+  }
+
+  const firstKey = urlKey(target)
+  for (const c of ranked) {
+    if (suggestions.length >= MAX_SUGGESTIONS) break
+    // The typed/completed row already covers this address, unless it is a tab to switch to
+    if (urlKey(c.url) === firstKey && c.kind !== 'shape') continue
+    suggestions.push({ kind: c.kind, url: c.url, title: c.title, fill: c.fill, shapeId: c.shapeId })
+  }
+  return { completion, suggestions }
+}
+
+/**
+ * Suggestions for the address bar while `active`. `getOpenShapes` is read on
+ * every render so tabs that navigate meanwhile show their current page.
+ */
+export function useOmniboxSuggestions(
+  typed: string,
+  active: boolean,
+  allowCompletion: boolean,
+  getOpenShapes: () => OpenBrowserShape[]
+): OmniboxResult {
+  const registry = useSearchEngines()
+  const bookmarks = useBookmarks()
+  const [history, setHistory] = useState<HistorySuggestion[]>([])
+
+  useEffect(() => {
+    const text = typed.trim()
+    if (!active || !text || !window.overlay?.suggestHistory) return
+    // Out-of-order replies are dropped; stale rows are re-filtered by rankSuggestions anyway
+    let cancelled = false
+    window.overlay.suggestHistory({ text, limit: HISTORY_CANDIDATES })
+      .then((res) => { if (!cancelled && res.ok) setHistory(res.suggestions) })
+      .catch(() => { })
+    return () => { cancelled = true }
+  }, [typed, active])
+
+  if (!active) return EMPTY
+  return rankSuggestions(typed, { history, bookmarks: bookmarks?.bookmarks ?? [], shapes: getOpenShapes(), registry }, allowCompletion)
+}
@@ -0,0 +1,23 @@
+import type React from 'react'
+
+// Side panels (downloads, history, settings…) are opened from hotkeys and
+// shape controls through a window event, like the other `paper:` events.
+
+export type PanelKind = 'bookmarks' | 'downloads' | 'history' | 'settings' | 'tasks'
+
+export const TOGGLE_PANEL_EVENT = 'paper:toggle-panel' as const
+
+export function togglePanel(panel: PanelKind): void {
+  window.dispatchEvent(new CustomEvent(TOGGLE_PANEL_EVENT, { detail: { panel } }))
+}
+
+export const panelButtonStyle: React.CSSProperties = {
+  height: '24px',
+  padding: '0 8px',
+  border: '1px solid #cfd4da',
+  borderRadius: '4px',
+  background: '#f8f9fa',
+  fontSize: '11px',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+}
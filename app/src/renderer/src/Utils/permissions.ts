@@ -0,0 +1,31 @@
+// Human-readable wording for Electron permission names, shared by the inline
+// prompt and the settings list.
+
+const PERMISSION_LABELS: Record<string, string> = {
+  media: 'use your camera and microphone',
+  geolocation: 'know your location',
+  notifications: 'show notifications',
+  midi: 'use MIDI devices',
+  midiSysex: 'use MIDI devices',
+  pointerLock: 'lock your pointer',
+  'display-capture': 'capture your screen',
+  'idle-detection': 'know when you are idle',
+  'window-management': 'manage your windows',
+  openExternal: 'open external apps',
+}
+
+export function describePermission(permission: string, mediaTypes?: string[]): string {
+  if (permission === 'media' && mediaTypes?.length) {
+    const parts = mediaTypes.map((t) => (t === 'video' ? 'camera' : t === 'audio' ? 'microphone' : t))
+    return `use your ${parts.join(' and ')}`
+  }
+  return PERMISSION_LABELS[permission] ?? `use ${permission}`
+}
+
+export function hostOf(origin: string): string {
+  try {
+    return new URL(origin).host || origin
+  } catch {
+    return origin
+  }
+}
@@ -0,0 +1,32 @@
+import type { TabCrashInfo } from '../../../types/overlay'
+
+// Crash state shown in a browser shape while its renderer is gone.
+export type TabCrashState = TabCrashInfo & {
+  // Automatic recoveries already made since the tab last stayed up
+  attempts: number
+  // When the next automatic recovery runs; null once it has given up
+  retryAt: number | null
+}
+
+// One delay per automatic recovery; after the last one the tab waits for Reload
+const RETRY_DELAYS_MS = [1_000, 5_000, 30_000]
+
+// A tab that stays up this long after recovering gets its full retry budget back
+export const CRASH_STABLE_MS = 60_000
+
+/** Delay before automatic recovery number `attempts + 1`, or null to stop retrying. */
+export function crashRetryDelay(attempts: number): number | null {
+  return RETRY_DELAYS_MS[attempts] ?? null
+}
+
+export function describeCrashReason(reason: TabCrashInfo['reason']): string {
+  switch (reason) {
+    case 'oom': return 'ran out of memory'
+    case 'killed': return 'was stopped by the system'
+    case 'launch-failed': return 'could not be started'
+    case 'integrity-failure': return 'failed a code integrity check'
+    case 'memory-eviction': return 'was closed to free memory'
+    case 'clean-exit': return 'exited'
+    default: return 'crashed'
+  }
+}
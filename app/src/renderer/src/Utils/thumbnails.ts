@@ -0,0 +1,31 @@
+import type { TabThumb } from '../../../types/overlay'
+
+/** Smallest level at least `targetWidth` pixels wide, else the largest; `levels` are ordered smallest first. */
+export function pickThumbLevel<T extends TabThumb>(levels: T[], targetWidth: number): T | null {
+  if (levels.length === 0) return null
+  return levels.find((level) => level.width >= targetWidth) ?? levels[levels.length - 1]
+}
+
+/** Largest level, for views that show the poster at full size. */
+export function largestThumb<T extends TabThumb>(levels: T[]): T | null {
+  return levels.length > 0 ? levels[levels.length - 1] : null
+}
+
+/** Identifies the image a level holds, for skipping redundant redraws. */
+export function thumbKey(level: TabThumb): string {
+  return 'dataUrl' in level ? level.dataUrl : level.path
+}
+
+// Levels restored from disk, by path, once something has drawn them
+const loadedThumbs = new Map<string, Promise<string | null>>()
+
+/** Image source for a level; a level restored from disk is read through main the first time it is drawn. */
+export function thumbSrc(level: TabThumb): Promise<string | null> {
+  if ('dataUrl' in level) return Promise.resolve(level.dataUrl)
+  let src = loadedThumbs.get(level.path)
+  if (!src) {
+    src = window.overlay.readThumb({ path: level.path }).then((res) => (res.ok ? res.dataUrl : null), () => null)
+    loadedThumbs.set(level.path, src)
+  }
+  return src
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react'
+import type { BookmarksData } from '../../../types/overlay'
+
+export const ROOT_FOLDER_ID = 'root'
+
+// One shared copy of the bookmark tree; main pushes `bookmarks-changed`.
+let cached: BookmarksData | null = null
+let inflight: Promise<void> | null = null
+const listeners = new Set<(data: BookmarksData) => void>()
+
+function publish(next: BookmarksData): void {
+  cached = next
+  for (const l of listeners) l(next)
+}
+
+function ensureLoaded(): void {
+  if (cached || inflight || !window.overlay?.listBookmarks) return
+  inflight = window.overlay.listBookmarks()
+    .then((res) => { if (res.ok) publish(res.data) })
+    .catch(() => { })
+    .finally(() => { inflight = null })
+}
+
+let unsubscribeNotice: (() => void) | null = null
+function ensureSubscribed(): void {
+  if (unsubscribeNotice || !window.overlay?.onNotice) return
+  unsubscribeNotice = window.overlay.onNotice((n) => {
+    if (n.kind === 'bookmarks-changed') publish(n.data)
+  })
+}
+
+export function useBookmarks(): BookmarksData | null {
+  const [data, setData] = useState<BookmarksData | null>(() => cached)
+
+  useEffect(() => {
+    ensureSubscribed()
+    ensureLoaded()
+    listeners.add(setData)
+    if (cached) setData(cached)
+    return () => { listeners.delete(setData) }
+  }, [])
+
+  return data
+}
+
+/** Folder path for pickers, e.g. "Bookmarks / Work / Docs". */
+export function folderPath(data: BookmarksData, folderId: string): string {
+  const names: string[] = []
+  const seen = new Set<string>()
+  for (let id: string | null = folderId; id && !seen.has(id);) {
+    seen.add(id)
+    const folder = data.folders.find((f) => f.id === id)
+    if (!folder) break
+    names.unshift(folder.name)
+    id = folder.parentId
+  }
+  return names.join(' / ')
+}
+
+export function parseTags(text: string): string[] {
+  return text.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)
+}
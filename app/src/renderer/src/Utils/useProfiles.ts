@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import type { BrowserProfile } from '../../../types/overlay'
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+// One shared list for every mounted shape; main pushes `profiles-changed`.
+let cached: BrowserProfile[] | null = null
+let inflight: Promise<void> | null = null
+const listeners = new Set<(profiles: BrowserProfile[]) => void>()
+
+function publish(next: BrowserProfile[]): void {
+  cached = next
+  for (const l of listeners) l(next)
+}
+
+function ensureLoaded(): void {
+  if (cached || inflight || !window.overlay?.listProfiles) return
+  inflight = window.overlay.listProfiles()
+    .then((res) => { if (res.ok) publish(res.profiles) })
+    .catch(() => { })
+    .finally(() => { inflight = null })
+}
+
+let unsubscribeNotice: (() => void) | null = null
+function ensureSubscribed(): void {
+  if (unsubscribeNotice || !window.overlay?.onNotice) return
+  unsubscribeNotice = window.overlay.onNotice((n) => {
+    if (n.kind === 'profiles-changed') publish(n.profiles)
+  })
+}
+
+export function useProfiles(): BrowserProfile[] {
+  const [profiles, setProfiles] = useState<BrowserProfile[]>(() => cached ?? [])
+
+  useEffect(() => {
+    ensureSubscribed()
+    ensureLoaded()
+    listeners.add(setProfiles)
+    if (cached) setProfiles(cached)
+    return () => { listeners.delete(setProfiles) }
+  }, [])
+
+  return profiles
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react'
+import type { SearchEngine, SearchEngines } from '../../../types/overlay'
+
+// One shared copy of the search-engine registry; main pushes `search-engines-changed`.
+let cached: SearchEngines | null = null
+let inflight: Promise<void> | null = null
+const listeners = new Set<(engines: SearchEngines) => void>()
+
+function publish(next: SearchEngines): void {
+  cached = next
+  for (const l of listeners) l(next)
+}
+
+function ensureLoaded(): void {
+  if (cached || inflight || !window.overlay?.listSearchEngines) return
+  inflight = window.overlay.listSearchEngines()
+    .then((res) => { if (res.ok) publish(res.engines) })
+    .catch(() => { })
+    .finally(() => { inflight = null })
+}
+
+let unsubscribeNotice: (() => void) | null = null
+function ensureSubscribed(): void {
+  if (unsubscribeNotice || !window.overlay?.onNotice) return
+  unsubscribeNotice = window.overlay.onNotice((n) => {
+    if (n.kind === 'search-engines-changed') publish(n.engines)
+  })
+}
+
+export function useSearchEngines(): SearchEngines | null {
+  const [engines, setEngines] = useState<SearchEngines | null>(() => cached)
+
+  useEffect(() => {
+    ensureSubscribed()
+    ensureLoaded()
+    listeners.add(setEngines)
+    if (cached) setEngines(cached)
+    return () => { listeners.delete(setEngines) }
+  }, [])
+
+  return engines
+}
+
+// Used until the registry has loaded
+const FALLBACK_SEARCH = 'https://www.google.com/search?q=%s'
+
+export function searchUrl(template: string, query: string): string {
+  return template.replace(/%s/g, encodeURIComponent(query))
+}
+
+export function defaultEngine(registry: SearchEngines | null): SearchEngine | null {
+  if (!registry) return null
+  return registry.engines.find((e) => e.id === registry.defaultId) ?? registry.engines[0] ?? null
+}
+
+/** "gh foo" → the GitHub engine and "foo"; null when the first word is not a keyword. */
+export function matchKeyword(input: string, registry: SearchEngines | null): { engine: SearchEngine; query: string } | null {
+  const m = /^(\S+)\s+(.+)$/.exec(input.trim())
+  if (!m || !registry) return null
+  const keyword = m[1].toLowerCase()
+  const engine = registry.engines.find((e) => e.keyword && e.keyword === keyword)
+  return engine ? { engine, query: m[2] } : null
+}
+
+/** True for address-bar text that should load as a URL rather than be searched for. */
+export function looksLikeAddress(input: string): boolean {
+  const trimmed = input.trim()
+  if (/^https?:\/\//i.test(trimmed)) return true
+  return !/\s/.test(trimmed) && (trimmed.includes('.') || /^localhost(:\d+)?(\/|$)/i.test(trimmed))
+}
+
+/** Turns address-bar text into a URL: URLs and domains load, keywords and everything else search. */
+export function resolveAddressInput(input: string, registry: SearchEngines | null): string {
+  const trimmed = input.trim()
+  if (/^https?:\/\//i.test(trimmed)) return trimmed
+  const keyword = matchKeyword(trimmed, registry)
+  if (keyword) return searchUrl(keyword.engine.url, keyword.query)
+  if (looksLikeAddress(trimmed)) {
+    return `${/^localhost/i.test(trimmed) ? 'http' : 'https'}://${trimmed}`
+  }
+  return searchUrl(defaultEngine(registry)?.url ?? FALLBACK_SEARCH, trimmed)
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import type { AppSettings, AppSettingsPatch } from '../../../types/overlay'
+
+// One shared copy of the app settings; main pushes `settings-changed`.
+let cached: AppSettings | null = null
+let inflight: Promise<void> | null = null
+const listeners = new Set<(settings: AppSettings) => void>()
+
+function publish(next: AppSettings): void {
+  cached = next
+  for (const l of listeners) l(next)
+}
+
+function ensureLoaded(): void {
+  if (cached || inflight || !window.overlay?.getSettings) return
+  inflight = window.overlay.getSettings()
+    .then((res) => { if (res.ok) publish(res.settings) })
+    .catch(() => { })
+    .finally(() => { inflight = null })
+}
+
+let unsubscribeNotice: (() => void) | null = null
+function ensureSubscribed(): void {
+  if (unsubscribeNotice || !window.overlay?.onNotice) return
+  unsubscribeNotice = window.overlay.onNotice((n) => {
+    if (n.kind === 'settings-changed') publish(n.settings)
+  })
+}
+
+export function useSettings(): AppSettings | null {
+  const [settings, setSettings] = useState<AppSettings | null>(() => cached)
+
+  useEffect(() => {
+    ensureSubscribed()
+    ensureLoaded()
+    listeners.add(setSettings)
+    if (cached) setSettings(cached)
+    return () => { listeners.delete(setSettings) }
+  }, [])
+
+  return settings
+}
+
+export async function updateSettings(patch: AppSettingsPatch): Promise<void> {
+  const res = await window.overlay.updateSettings(patch)
+  if (res.ok) publish(res.settings)
+}
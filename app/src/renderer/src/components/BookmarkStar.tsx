@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react'
+import { panelButtonStyle } from '../Utils/panels'
+import { ROOT_FOLDER_ID, folderPath, parseTags, useBookmarks } from '../Utils/useBookmarks'
+
+interface BookmarkStarProps {
+  url: string
+  title: string
+  onInteract?: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  height: '26px',
+  padding: '0 6px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '12px',
+  boxSizing: 'border-box',
+}
+
+/** Star in the address bar: adds the page to the root folder, then edits it. */
+export const BookmarkStar: React.FC<BookmarkStarProps> = ({ url, title, onInteract }) => {
+  const data = useBookmarks()
+  const [editing, setEditing] = useState(false)
+  const bookmark = data?.bookmarks.find((b) => b.url === url) ?? null
+
+  const [name, setName] = useState('')
+  const [folderId, setFolderId] = useState(ROOT_FOLDER_ID)
+  const [tags, setTags] = useState('')
+
+  useEffect(() => {
+    if (!editing || !bookmark) return
+    setName(bookmark.title)
+    setFolderId(bookmark.folderId)
+    setTags(bookmark.tags.join(', '))
+    // Only reset the form when the popover opens or the bookmark changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editing, bookmark?.id])
+
+  if (!/^(https?|file):/i.test(url)) return null
+
+  const save = async (): Promise<void> => {
+    if (bookmark) {
+      await window.overlay.updateBookmark({ id: bookmark.id, patch: { title: name, folderId, tags: parseTags(tags) } })
+    }
+    setEditing(false)
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        title={bookmark ? 'Edit bookmark' : 'Bookmark this page'}
+        aria-label={bookmark ? 'Edit bookmark' : 'Bookmark this page'}
+        onPointerDown={async (e) => {
+          e.stopPropagation()
+          onInteract?.()
+          if (!bookmark) await window.overlay.addBookmark({ url, title })
+          setEditing((v) => !v || !bookmark)
+        }}
+        style={{
+          width: '28px',
+          height: '28px',
+          border: 'none',
+          borderRadius: '4px',
+          background: editing ? '#d0e4ff' : '#f0f0f0',
+          color: bookmark ? '#f59f00' : '#868e96',
+          cursor: 'pointer',
+          fontSize: '15px',
+          userSelect: 'none',
+        }}
+      >
+        {bookmark ? '★' : '☆'}
+      </button>
+
+      {editing && bookmark && data && (
+        <div
+          onPointerDown={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            e.stopPropagation()
+            if (e.key === 'Enter') void save()
+            if (e.key === 'Escape') setEditing(false)
+          }}
+          style={{
+            position: 'absolute',
+            top: '34px',
+            right: 0,
+            width: '260px',
+            background: 'white',
+            border: '1px solid #dee2e6',
+            borderRadius: '6px',
+            boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+            padding: '10px',
+            zIndex: 1001,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            fontSize: '12px',
+          }}
+        >
+          <div style={{ fontWeight: 600 }}>Bookmark</div>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={fieldStyle} autoFocus />
+          <select value={folderId} onChange={(e) => setFolderId(e.target.value)} style={fieldStyle}>
+            {data.folders.map((f) => <option key={f.id} value={f.id}>{folderPath(data, f.id)}</option>)}
+          </select>
+          <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" style={fieldStyle} />
+          <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+            <button
+              type="button"
+              style={panelButtonStyle}
+              onClick={async () => {
+                await window.overlay.removeBookmarks({ ids: [bookmark.id] })
+                setEditing(false)
+              }}
+            >
+              Remove
+            </button>
+            <button type="button" style={panelButtonStyle} onClick={() => { void save() }}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
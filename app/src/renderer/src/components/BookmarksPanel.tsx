@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react'
+import type { Editor } from 'tldraw'
+import { toast } from 'react-hot-toast'
+import type { Bookmark, BookmarkFolder, BookmarksData } from '../../../types/overlay'
+import { Panel } from './Panel'
+import { panelButtonStyle } from '../Utils/panels'
+import { layOutBrowserShapes, placeBrowserShape } from '../Utils/browserShapes'
+import { hostOf } from '../Utils/permissions'
+import { ROOT_FOLDER_ID, useBookmarks } from '../Utils/useBookmarks'
+
+interface BookmarksPanelProps {
+  editorRef: React.RefObject<Editor | null>
+  onClose: () => void
+}
+
+const inputStyle: React.CSSProperties = {
+  height: '26px',
+  padding: '0 8px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '12px',
+}
+
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', cursor: 'pointer' }
+
+const ellipsis: React.CSSProperties = { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }
+
+function ancestors(data: BookmarksData, folderId: string): BookmarkFolder[] {
+  const chain: BookmarkFolder[] = []
+  for (let id: string | null = folderId; id;) {
+    const folder = data.folders.find((f) => f.id === id)
+    if (!folder || chain.includes(folder)) break
+    chain.unshift(folder)
+    id = folder.parentId
+  }
+  return chain
+}
+
+export const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ editorRef, onClose }) => {
+  const data = useBookmarks()
+  const [folderId, setFolderId] = useState(ROOT_FOLDER_ID)
+  const [text, setText] = useState('')
+  const [tag, setTag] = useState<string | null>(null)
+  const [results, setResults] = useState<Bookmark[] | null>(null)
+  const [newFolderName, setNewFolderName] = useState<string | null>(null)
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+
+  const searching = text.trim().length > 0 || tag !== null
+
+  useEffect(() => {
+    if (!searching) { setResults(null); return }
+    let cancelled = false
+    void window.overlay.searchBookmarks({ text, tag: tag ?? undefined }).then((res) => {
+      if (!cancelled && res.ok) setResults(res.bookmarks)
+    })
+    return () => { cancelled = true }
+  }, [text, tag, searching, data])
+
+  // The open folder may have been deleted from another shape's star popover
+  useEffect(() => {
+    if (data && !data.folders.some((f) => f.id === folderId)) setFolderId(ROOT_FOLDER_ID)
+  }, [data, folderId])
+
+  if (!data) return null
+
+  const subfolders = data.folders.filter((f) => f.parentId === folderId)
+  const items = data.bookmarks.filter((b) => b.folderId === folderId)
+
+  const open = (b: Bookmark): void => {
+    const editor = editorRef.current
+    if (editor) placeBrowserShape(editor, b.url)
+  }
+
+  const layOut = (id: string): void => {
+    const editor = editorRef.current
+    const list = data.bookmarks.filter((b) => b.folderId === id)
+    if (!editor || list.length === 0) return
+    const ids = layOutBrowserShapes(editor, list.map((b) => ({ url: b.url })))
+    editor.select(...ids)
+    // The grid can extend past the viewport, so fit it all in view
+    editor.zoomToSelection({ animation: { duration: 300 } })
+  }
+
+  const renderBookmark = (b: Bookmark): React.ReactNode => (
+    <div key={b.id} style={rowStyle} title={`${b.url}\nClick to open in a new shape`} onClick={() => open(b)}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={ellipsis}>{b.title}</div>
+        <div style={{ display: 'flex', gap: '4px', fontSize: '11px', color: '#868e96', alignItems: 'center' }}>
+          <span style={ellipsis}>{hostOf(b.url)}</span>
+          {b.tags.map((t) => (
+            <span
+              key={t}
+              onClick={(e) => { e.stopPropagation(); setTag(t) }}
+              style={{ padding: '0 5px', borderRadius: '8px', background: '#e7f5ff', color: '#1971c2' }}
+            >
+              {t}
+            </span>
+          ))}
+        </div>
+      </div>
+      <button
+        type="button"
+        style={panelButtonStyle}
+        aria-label="Delete bookmark"
+        title="Delete bookmark"
+        onClick={(e) => {
+          e.stopPropagation()
+          void window.overlay.removeBookmarks({ ids: [b.id] })
+        }}
+      >
+        ✕
+      </button>
+    </div>
+  )
+
+  return (
+    <Panel
+      title="Bookmarks"
+      onClose={onClose}
+      actions={
+        <>
+          <button
+            type="button"
+            style={panelButtonStyle}
+            onClick={async () => {
+              const res = await window.overlay.importBookmarks()
+              if (res.ok) {
+                toast.success(`Imported ${res.count} bookmark${res.count === 1 ? '' : 's'}`)
+                setFolderId(res.folder.id)
+              } else if (res.error !== 'cancelled') {
+                toast.error(`Import failed: ${res.error}`)
+              }
+            }}
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            style={panelButtonStyle}
+            onClick={async () => {
+              const res = await window.overlay.exportBookmarks()
+              if (!res.ok && res.error !== 'cancelled') toast.error(`Export failed: ${res.error}`)
+            }}
+          >
+            Export
+          </button>
+        </>
+      }
+    >
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <input
+          type="search"
+          value={text}
+          placeholder="Search bookmarks"
+          onChange={(e) => setText(e.target.value)}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        {tag && (
+          <button type="button" style={panelButtonStyle} title="Clear tag filter" onClick={() => setTag(null)}>
+            #{tag} ✕
+          </button>
+        )}
+      </div>
+
+      {searching ? (
+        <>
+          {results?.length === 0 && <div style={{ color: '#868e96', padding: '8px 0' }}>No matching bookmarks</div>}
+          {results?.map(renderBookmark)}
+        </>
+      ) : (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '6px', fontSize: '12px' }}>
+            <div style={{ flex: 1, minWidth: 0, ...ellipsis }}>
+              {ancestors(data, folderId).map((f, i, all) => (
+                <span key={f.id}>
+                  <span
+                    onClick={() => setFolderId(f.id)}
+                    style={{ cursor: 'pointer', fontWeight: i === all.length - 1 ? 600 : 400 }}
+                  >
+                    {f.name}
+                  </span>
+                  {i < all.length - 1 && <span style={{ color: '#adb5bd' }}> / </span>}
+                </span>
+              ))}
+            </div>
+            <button type="button" style={panelButtonStyle} onClick={() => setNewFolderName('')}>
+              New folder
+            </button>
+            <button
+              type="button"
+              style={panelButtonStyle}
+              disabled={items.length === 0}
+              title="Open every bookmark in this folder as a browser shape"
+              onClick={() => layOut(folderId)}
+            >
+              Open all
+            </button>
+          </div>
+
+          {newFolderName !== null && (
+            <form
+              style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}
+              onSubmit={async (e) => {
+                e.preventDefault()
+                if (newFolderName.trim()) await window.overlay.createBookmarkFolder({ name: newFolderName, parentId: folderId })
+                setNewFolderName(null)
+              }}
+            >
+              <input
+                autoFocus
+                value={newFolderName}
+                placeholder="Folder name"
+                onChange={(e) => setNewFolderName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setNewFolderName(null) }}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <button type="submit" style={panelButtonStyle}>Create</button>
+            </form>
+          )}
+
+          {subfolders.map((f) => {
+            const count = data.bookmarks.filter((b) => b.folderId === f.id).length
+            return (
+              <div key={f.id} style={rowStyle} onClick={() => setFolderId(f.id)}>
+                <span>📁</span>
+                {renaming?.id === f.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setRenaming({ id: f.id, name: e.target.value })}
+                    onBlur={() => {
+                      if (renaming.name.trim()) void window.overlay.updateBookmarkFolder({ id: f.id, name: renaming.name })
+                      setRenaming(null)
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur()
+                      if (e.key === 'Escape') setRenaming(null)
+                    }}
+                    style={{ ...inputStyle, flex: 1 }}
+                  />
+                ) : (
+                  <span
+                    style={{ flex: 1, ...ellipsis }}
+                    title="Double-click to rename"
+                    onDoubleClick={(e) => { e.stopPropagation(); setRenaming({ id: f.id, name: f.name }) }}
+                  >
+                    {f.name}
+                  </span>
+                )}
+                <span style={{ fontSize: '11px', color: '#868e96' }}>{count}</span>
+                <button
+                  type="button"
+                  style={panelButtonStyle}
+                  disabled={count === 0}
+                  title="Open every bookmark in this folder as a browser shape"
+                  onClick={(e) => { e.stopPropagation(); layOut(f.id) }}
+                >
+                  Open all
+                </button>
+                <button
+                  type="button"
+                  style={panelButtonStyle}
+                  aria-label="Delete folder"
+                  title="Delete folder and its bookmarks"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void window.overlay.removeBookmarkFolder({ id: f.id })
+                  }}
+                >
+                  ✕
+                </button>
+              </div>
+            )
+          })}
+
+          {items.map(renderBookmark)}
+
+          {subfolders.length === 0 && items.length === 0 && (
+            <div style={{ color: '#868e96', padding: '8px 0' }}>
+              {folderId === ROOT_FOLDER_ID ? 'Use the ☆ in a tab’s address bar to bookmark a page.' : 'This folder is empty.'}
+            </div>
+          )}
+        </>
+      )}
+    </Panel>
+  )
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react'
+import type { ContentBlockingStatus } from '../../../types/overlay'
+import { panelButtonStyle } from '../Utils/panels'
+
+/** Settings section for the ad/tracker blocker: on/off, filter lists and the per-site allowlist. */
+export const ContentBlockingSettings: React.FC = () => {
+  const [status, setStatus] = useState<ContentBlockingStatus | null>(null)
+  const [reloading, setReloading] = useState(false)
+
+  useEffect(() => {
+    void window.overlay.getContentBlocking().then((res) => { if (res.ok) setStatus(res.status) })
+    // The shield button in a tab edits the allowlist while the panel is open
+    return window.overlay.onNotice((n) => {
+      if (n.kind === 'content-blocking-changed') setStatus(n.status)
+    })
+  }, [])
+
+  if (!status) return null
+  const totalRules = status.lists.reduce((sum, l) => sum + l.networkRules + l.cosmeticRules, 0)
+
+  return (
+    <div style={{ paddingBottom: '12px', marginBottom: '12px', borderBottom: '1px solid #f1f3f5' }}>
+      <div style={{ fontWeight: 600, marginBottom: '6px' }}>Content blocking</div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={status.enabled}
+          onChange={async (e) => {
+            const res = await window.overlay.setContentBlocking({ enabled: e.target.checked })
+            if (res.ok) setStatus(res.status)
+          }}
+        />
+        Block ads and trackers using local filter lists
+      </label>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginTop: '8px' }}>
+        <span style={{ flex: 1, color: '#868e96' }}>
+          {status.lists.length === 0
+            ? 'No filter lists yet. Add EasyList-format .txt files to the filter folder.'
+            : `${status.lists.length} list${status.lists.length === 1 ? '' : 's'}, ${totalRules.toLocaleString()} rules`}
+        </span>
+        <button type="button" style={panelButtonStyle} title={status.filterDir} onClick={() => { void window.overlay.openFilterFolder() }}>
+          Open folder
+        </button>
+        <button
+          type="button"
+          style={panelButtonStyle}
+          disabled={reloading}
+          onClick={async () => {
+            setReloading(true)
+            const res = await window.overlay.reloadFilterLists()
+            setReloading(false)
+            if (res.ok) setStatus(res.status)
+          }}
+        >
+          {reloading ? 'Loading…' : 'Reload lists'}
+        </button>
+      </div>
+
+      {status.lists.map((l) => (
+        <div key={l.name} style={{ display: 'flex', gap: '6px', fontSize: '11px', color: '#495057', padding: '2px 0 0 8px' }}>
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{l.name}</span>
+          <span style={{ color: '#868e96' }}>{l.networkRules.toLocaleString()} network · {l.cosmeticRules.toLocaleString()} hiding</span>
+        </div>
+      ))}
+
+      {status.allowlist.length > 0 && (
+        <div style={{ marginTop: '8px' }}>
+          <div style={{ fontSize: '12px', fontWeight: 600, marginBottom: '2px' }}>Allowed sites</div>
+          {status.allowlist.map((host) => (
+            <div key={host} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', padding: '2px 0' }}>
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{host}</span>
+              <button
+                type="button"
+                style={panelButtonStyle}
+                onClick={async () => {
+                  const res = await window.overlay.setSiteAllowed({ host, allowed: false })
+                  if (res.ok) setStatus(res.status)
+                }}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react'
+import { describeCrashReason } from '../Utils/tabCrash'
+import type { TabCrashState } from '../Utils/tabCrash'
+
+interface CrashOverlayProps {
+  crash: TabCrashState
+  onReload: () => void
+}
+
+/** Sad-tab face over a shape whose renderer died, with the recovery countdown. */
+export const CrashOverlay: React.FC<CrashOverlayProps> = ({ crash, onReload }) => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (crash.retryAt === null) return
+    const timer = window.setInterval(() => setNow(Date.now()), 500)
+    return () => window.clearInterval(timer)
+  }, [crash.retryAt])
+
+  const seconds = crash.retryAt === null ? null : Math.max(0, Math.ceil((crash.retryAt - now) / 1000))
+
+  return (
+    <div
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '10px',
+        background: 'rgba(248, 249, 250, 0.92)',
+        color: '#495057',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        textAlign: 'center',
+        pointerEvents: 'auto',
+        cursor: 'default',
+      }}
+    >
+      <div style={{ fontSize: '40px', lineHeight: 1 }}>☹</div>
+      <div style={{ fontSize: '16px', fontWeight: 600, color: '#212529' }}>
+        {crash.endedByUser ? 'This page’s process was ended' : `This page ${describeCrashReason(crash.reason)}`}
+      </div>
+      <div style={{ fontSize: '12px', color: '#868e96' }}>
+        {seconds !== null
+          ? `Reloading in ${seconds}s…`
+          : crash.endedByUser
+            ? 'It was ended from the task manager.'
+            : crash.attempts > 0
+              ? `It kept crashing after ${crash.attempts} automatic ${crash.attempts === 1 ? 'reload' : 'reloads'}.`
+              : 'It could not be reloaded automatically.'}
+        {' '}
+        <span title="Exit code">({crash.reason}, {crash.exitCode})</span>
+      </div>
+      <button
+        type="button"
+        onClick={onReload}
+        style={{
+          height: '30px',
+          padding: '0 16px',
+          border: 'none',
+          borderRadius: '6px',
+          background: '#007bff',
+          color: 'white',
+          fontSize: '13px',
+          cursor: 'pointer',
+        }}
+      >
+        Reload
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react'
+import type { DownloadEntry, DownloadSettings } from '../../../types/overlay'
+import { Panel } from './Panel'
+import { panelButtonStyle } from '../Utils/panels'
+
+interface DownloadsPanelProps {
+  onClose: () => void
+}
+
+function formatProgress(d: DownloadEntry): string {
+  const mb = (n: number): string => `${(n / (1024 * 1024)).toFixed(1)} MB`
+  if (d.state === 'completed') return mb(d.totalBytes || d.receivedBytes)
+  if (d.state === 'cancelled') return 'Cancelled'
+  if (d.state === 'interrupted') return 'Failed'
+  const of = d.totalBytes > 0 ? ` of ${mb(d.totalBytes)}` : ''
+  return `${mb(d.receivedBytes)}${of}${d.state === 'paused' ? ' · Paused' : ''}`
+}
+
+export const DownloadsPanel: React.FC<DownloadsPanelProps> = ({ onClose }) => {
+  const [downloads, setDownloads] = useState<DownloadEntry[]>([])
+  const [settings, setSettings] = useState<DownloadSettings | null>(null)
+
+  useEffect(() => {
+    const api = window.overlay
+    void api.listDownloads().then((res) => { if (res.ok) setDownloads(res.downloads) })
+    void api.getDownloadSettings().then((res) => { if (res.ok) setSettings(res.settings) })
+    return api.onNotice((n) => {
+      if (n.kind !== 'download-started' && n.kind !== 'download-progress' && n.kind !== 'download-done') return
+      setDownloads((prev) => {
+        const idx = prev.findIndex((d) => d.id === n.download.id)
+        if (idx === -1) return [n.download, ...prev]
+        const next = prev.slice()
+        next[idx] = n.download
+        return next
+      })
+    })
+  }, [])
+
+  const active = (d: DownloadEntry): boolean => d.state === 'progressing' || d.state === 'paused'
+
+  return (
+    <Panel
+      title="Downloads"
+      onClose={onClose}
+      actions={
+        <button
+          type="button"
+          style={panelButtonStyle}
+          onClick={async () => {
+            await window.overlay.clearDownloads()
+            setDownloads((prev) => prev.filter(active))
+          }}
+        >
+          Clear history
+        </button>
+      }
+    >
+      {settings && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', color: '#868e96', fontSize: '11px' }}>
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={settings.directory}>
+            Saving to {settings.directory}
+          </span>
+          <button
+            type="button"
+            style={panelButtonStyle}
+            onClick={async () => {
+              const res = await window.overlay.chooseDownloadDirectory()
+              if (res.ok) setSettings(res.settings)
+            }}
+          >
+            Change…
+          </button>
+        </div>
+      )}
+
+      {downloads.length === 0 && <div style={{ color: '#868e96', padding: '16px 0' }}>No downloads yet.</div>}
+
+      {downloads.map((d) => {
+        const pct = d.totalBytes > 0 ? Math.min(100, (d.receivedBytes / d.totalBytes) * 100) : 0
+        return (
+          <div key={d.id} style={{ padding: '8px 0', borderBottom: '1px solid #f1f3f5' }}>
+            <div title={d.url} style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {d.filename}
+            </div>
+            <div style={{ fontSize: '11px', color: '#868e96', margin: '2px 0 4px' }}>{formatProgress(d)}</div>
+            {active(d) && (
+              <div style={{ height: '4px', background: '#e9ecef', borderRadius: '2px', overflow: 'hidden', marginBottom: '6px' }}>
+                <div style={{ width: `${pct}%`, height: '100%', background: d.state === 'paused' ? '#adb5bd' : '#007bff' }} />
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: '6px' }}>
+              {d.state === 'progressing' && (
+                <button type="button" style={panelButtonStyle} onClick={() => { void window.overlay.pauseDownload({ id: d.id }) }}>Pause</button>
+              )}
+              {d.state === 'paused' && (
+                <button type="button" style={panelButtonStyle} disabled={!d.canResume} onClick={() => { void window.overlay.resumeDownload({ id: d.id }) }}>Resume</button>
+              )}
+              {active(d) && (
+                <button type="button" style={panelButtonStyle} onClick={() => { void window.overlay.cancelDownload({ id: d.id }) }}>Cancel</button>
+              )}
+              {d.state === 'completed' && (
+                <>
+                  <button type="button" style={panelButtonStyle} onClick={() => { void window.overlay.openFile({ filePath: d.savePath }) }}>Open</button>
+                  <button type="button" style={panelButtonStyle} onClick={() => { void window.overlay.openFile({ filePath: d.savePath, reveal: true }) }}>Show in folder</button>
+                </>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </Panel>
+  )
+}
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react'
+import type { FindResult } from '../../../types/overlay'
+
+export interface FindBarProps {
+  query: string
+  result: FindResult | null
+  allTabs: boolean
+  onQueryChange: (query: string) => void
+  onStep: (forward: boolean) => void
+  onToggleAllTabs: () => void
+  onClose: () => void
+  onInteract?: () => void
+}
+
+const stepButtonStyle: React.CSSProperties = {
+  width: '24px',
+  height: '24px',
+  border: 'none',
+  borderRadius: '4px',
+  background: '#f0f0f0',
+  cursor: 'pointer',
+  fontSize: '12px',
+  userSelect: 'none',
+}
+
+/** Drop-down search box anchored under the navigation bar's right edge. */
+export const FindBar: React.FC<FindBarProps> = ({
+  query,
+  result,
+  allTabs,
+  onQueryChange,
+  onStep,
+  onToggleAllTabs,
+  onClose,
+  onInteract,
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  const count = !query
+    ? ''
+    : result
+      ? `${result.matches > 0 ? result.activeMatchOrdinal : 0}/${result.matches}`
+      : '…'
+
+  return (
+    <div
+      onPointerDown={(e) => { e.stopPropagation(); onInteract?.() }}
+      style={{
+        position: 'absolute',
+        top: 'calc(100% + 4px)',
+        right: '8px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        padding: '4px 6px',
+        background: 'white',
+        border: '1px solid #dee2e6',
+        borderRadius: '6px',
+        boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+        zIndex: 1001,
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        placeholder="Find in page"
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation()
+          onInteract?.()
+          if (e.key === 'Enter') { e.preventDefault(); onStep(!e.shiftKey) }
+          if (e.key === 'Escape') { e.preventDefault(); onClose() }
+        }}
+        onMouseDown={(e) => e.stopPropagation()}
+        style={{
+          width: '160px',
+          height: '24px',
+          padding: '0 8px',
+          border: '1px solid #ced4da',
+          borderRadius: '4px',
+          fontSize: '12px',
+          outline: 'none',
+          boxSizing: 'border-box',
+        }}
+      />
+      <span style={{ minWidth: '40px', fontSize: '11px', color: result?.matches === 0 ? '#e03131' : '#868e96', textAlign: 'center' }}>
+        {count}
+      </span>
+      <button type="button" title="Previous match" style={stepButtonStyle} onPointerDown={(e) => { e.stopPropagation(); onStep(false) }}>
+        ↑
+      </button>
+      <button type="button" title="Next match" style={stepButtonStyle} onPointerDown={(e) => { e.stopPropagation(); onStep(true) }}>
+        ↓
+      </button>
+      <button
+        type="button"
+        title="Search every live tab"
+        style={{ ...stepButtonStyle, width: 'auto', padding: '0 6px', background: allTabs ? '#d0e4ff' : '#f0f0f0' }}
+        onPointerDown={(e) => { e.stopPropagation(); onToggleAllTabs() }}
+      >
+        All tabs
+      </button>
+      <button type="button" title="Close" style={stepButtonStyle} onPointerDown={(e) => { e.stopPropagation(); onClose() }}>
+        ✕
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import type { Editor } from 'tldraw'
+import type { HistoryEntry } from '../../../types/overlay'
+import { Panel } from './Panel'
+import { panelButtonStyle } from '../Utils/panels'
+import { placeBrowserShape } from '../Utils/browserShapes'
+import { hostOf } from '../Utils/permissions'
+import { useProfiles } from '../Utils/useProfiles'
+
+interface HistoryPanelProps {
+  editorRef: React.RefObject<Editor | null>
+  onClose: () => void
+}
+
+type RangeKey = 'today' | 'yesterday' | 'week' | 'month' | 'all'
+
+const RANGES: Array<{ key: RangeKey; label: string }> = [
+  { key: 'today', label: 'Today' },
+  { key: 'yesterday', label: 'Yesterday' },
+  { key: 'week', label: 'Last 7 days' },
+  { key: 'month', label: 'Last 30 days' },
+  { key: 'all', label: 'All time' },
+]
+
+const PAGE_SIZE = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function rangeBounds(key: RangeKey): { from?: number; to?: number } {
+  const midnight = new Date()
+  midnight.setHours(0, 0, 0, 0)
+  const today = midnight.getTime()
+  switch (key) {
+    case 'today': return { from: today }
+    case 'yesterday': return { from: today - DAY_MS, to: today }
+    case 'week': return { from: today - 6 * DAY_MS }
+    case 'month': return { from: today - 29 * DAY_MS }
+    default: return {}
+  }
+}
+
+function dayLabel(t: number): string {
+  return new Date(t).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ editorRef, onClose }) => {
+  const [text, setText] = useState('')
+  const [range, setRange] = useState<RangeKey>('all')
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const profiles = useProfiles()
+
+  const reload = useCallback(async (): Promise<void> => {
+    const res = await window.overlay.queryHistory({ text, ...rangeBounds(range), limit })
+    if (!res.ok) return
+    setEntries(res.entries)
+    setTotal(res.total)
+  }, [text, range, limit])
+
+  useEffect(() => {
+    void reload()
+    return window.overlay.onNotice((n) => {
+      if (n.kind === 'history-changed') void reload()
+    })
+  }, [reload])
+
+  const open = (entry: HistoryEntry): void => {
+    const editor = editorRef.current
+    if (!editor) return
+    // Fall back to the current profile if the visit's profile was removed
+    const profile = profiles.some((p) => p.id === entry.profile) ? entry.profile : null
+    placeBrowserShape(editor, entry.url, profile)
+  }
+
+  let lastDay = ''
+
+  return (
+    <Panel
+      title="History"
+      onClose={onClose}
+      actions={
+        <button
+          type="button"
+          style={panelButtonStyle}
+          disabled={total === 0}
+          title={`Clear ${RANGES.find((r) => r.key === range)?.label.toLowerCase()}`}
+          onClick={async () => {
+            await window.overlay.clearHistory(rangeBounds(range))
+            await reload()
+          }}
+        >
+          Clear
+        </button>
+      }
+    >
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <input
+          type="search"
+          value={text}
+          placeholder="Search history"
+          autoFocus
+          onChange={(e) => { setText(e.target.value); setLimit(PAGE_SIZE) }}
+          style={{ flex: 1, height: '26px', padding: '0 8px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '12px' }}
+        />
+        <select
+          value={range}
+          onChange={(e) => { setRange(e.target.value as RangeKey); setLimit(PAGE_SIZE) }}
+          style={{ fontSize: '12px', height: '26px' }}
+        >
+          {RANGES.map((r) => <option key={r.key} value={r.key}>{r.label}</option>)}
+        </select>
+      </div>
+
+      {entries.length === 0 && (
+        <div style={{ color: '#868e96', padding: '8px 0' }}>{text ? 'No matching pages' : 'No history'}</div>
+      )}
+
+      {entries.map((entry) => {
+        const day = dayLabel(entry.visitedAt)
+        const header = day !== lastDay
+        lastDay = day
+        return (
+          <React.Fragment key={entry.id}>
+            {header && (
+              <div style={{ fontSize: '11px', fontWeight: 600, color: '#868e96', padding: '10px 0 4px' }}>{day}</div>
+            )}
+            <div
+              style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 0', cursor: 'pointer' }}
+              title={`${entry.url}\nClick to open in a new shape`}
+              onClick={() => open(entry)}
+            >
+              <span style={{ width: '40px', flexShrink: 0, fontSize: '11px', color: '#868e96' }}>
+                {new Date(entry.visitedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {entry.title || entry.url}
+                </div>
+                <div style={{ fontSize: '11px', color: '#868e96', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {hostOf(entry.url)}
+                </div>
+              </div>
+              <button
+                type="button"
+                style={panelButtonStyle}
+                aria-label="Remove from history"
+                title="Remove from history"
+                onClick={async (e) => {
+                  e.stopPropagation()
+                  await window.overlay.deleteHistory({ ids: [entry.id] })
+                  await reload()
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          </React.Fragment>
+        )
+      })}
+
+      {entries.length < total && (
+        <button
+          type="button"
+          style={{ ...panelButtonStyle, width: '100%', marginTop: '8px' }}
+          onClick={() => setLimit((n) => n + PAGE_SIZE)}
+        >
+          Show more ({total - entries.length})
+        </button>
+      )}
+    </Panel>
+  )
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react'
+import type { NavError, TabThumb } from '../../../types/overlay'
+import { hostOf } from '../Utils/permissions'
+import { thumbSrc } from '../Utils/thumbnails'
+
+interface NavErrorPageProps {
+  error: NavError
+  // Last poster of this tab, offered while the live page is unreachable
+  cached: { thumb: TabThumb; url: string | null } | null
+  onRetry: () => void
+}
+
+const HEADLINES: Record<NavError['kind'], string> = {
+  dns: 'This site can’t be reached',
+  connection: 'This site can’t be reached',
+  timeout: 'The connection timed out',
+  certificate: 'Your connection is not private',
+  other: 'This page couldn’t be loaded',
+}
+
+function explain(error: NavError, host: string): string {
+  switch (error.kind) {
+    case 'dns': return `${host}’s server address could not be found. Check the spelling or your network.`
+    case 'connection': return `${host} refused or dropped the connection, or you are offline.`
+    case 'timeout': return `${host} took too long to respond.`
+    case 'certificate': return `The certificate for ${host} is not trusted, so the page was not loaded.`
+    default: return `Loading ${host} failed.`
+  }
+}
+
+const buttonStyle: React.CSSProperties = {
+  height: '30px',
+  padding: '0 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer',
+}
+
+/** Error page drawn over the canvas when the tab's main frame failed to load. */
+export const NavErrorPage: React.FC<NavErrorPageProps> = ({ error, cached, onRetry }) => {
+  const [showCached, setShowCached] = useState(false)
+  const [cachedSrc, setCachedSrc] = useState<string | null>(null)
+  const host = hostOf(error.url) || error.url
+
+  // A new failure starts on the error card again
+  useEffect(() => setShowCached(false), [error.at])
+
+  // The poster may only be on disk, so it is read once the user asks for it
+  const cachedThumb = cached?.thumb
+  useEffect(() => {
+    if (!showCached || !cachedThumb) return
+    let live = true
+    void thumbSrc(cachedThumb).then((src) => { if (live) setCachedSrc(src) })
+    return () => { live = false }
+  }, [showCached, cachedThumb])
+
+  if (showCached && cached && cachedSrc) {
+    return (
+      <div onPointerDown={(e) => e.stopPropagation()} style={{ position: 'absolute', inset: 0, pointerEvents: 'auto', background: 'white' }}>
+        <img src={cachedSrc} alt="" style={{ width: '100%', height: '100%', objectFit: 'contain', display: 'block' }} />
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '6px 10px',
+            background: '#fff3bf',
+            color: '#5c3c00',
+            fontSize: '12px',
+            fontFamily: 'system-ui, sans-serif',
+          }}
+        >
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            Cached snapshot{cached.url ? ` of ${cached.url}` : ''}. Links and scrolling do not work here.
+          </span>
+          <button type="button" onClick={() => setShowCached(false)} style={{ ...buttonStyle, height: '24px', padding: '0 10px', border: '1px solid #e6c200', background: 'white', fontSize: '12px' }}>
+            Back
+          </button>
+          <button type="button" onClick={onRetry} style={{ ...buttonStyle, height: '24px', padding: '0 10px', border: 'none', background: '#007bff', color: 'white', fontSize: '12px' }}>
+            Retry
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'flex-start',
+        justifyContent: 'center',
+        gap: '10px',
+        padding: '0 12%',
+        background: 'white',
+        color: '#495057',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        pointerEvents: 'auto',
+        cursor: 'default',
+      }}
+    >
+      <div style={{ fontSize: '36px', lineHeight: 1 }}>{error.kind === 'certificate' ? '⚠' : '⊘'}</div>
+      <div style={{ fontSize: '18px', fontWeight: 600, color: '#212529' }}>{HEADLINES[error.kind]}</div>
+      <div>{explain(error, host)}</div>
+      <div style={{ fontSize: '11px', color: '#868e96', fontFamily: 'ui-monospace, monospace' }}>
+        {error.description} ({error.code})
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginTop: '6px' }}>
+        <button type="button" onClick={onRetry} style={{ ...buttonStyle, border: 'none', background: '#007bff', color: 'white' }}>
+          Retry
+        </button>
+        {cached && (
+          <button type="button" onClick={() => setShowCached(true)} style={{ ...buttonStyle, border: '1px solid #ced4da', background: 'white', color: '#212529' }}>
+            Open cached snapshot
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
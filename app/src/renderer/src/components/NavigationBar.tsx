@@ -1,4 +1,17 @@
-import React, { useCallback, useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { TLShapeId } from 'tldraw'
+import type { BrowserProfile, ShieldState } from '../../../types/overlay'
+import { ProfileBadge } from './ProfileBadge'
+import { BookmarkStar } from './BookmarkStar'
+import { resolveAddressInput, useSearchEngines } from '../Utils/useSearchEngines'
+import { useOmniboxSuggestions } from '../Utils/omnibox'
+import type { OmniboxSuggestion } from '../Utils/omnibox'
+import type { OpenBrowserShape } from '../Utils/browserShapes'
+import { OmniboxDropdown } from './OmniboxDropdown'
+import { FindBar } from './FindBar'
+import { PageMenu } from './PageMenu'
+import type { PdfOptions } from './PageMenu'
+import type { FindBarProps } from './FindBar'
 
 interface NavigationBarProps {
   navState: {
@@ -14,9 +27,39 @@ interface NavigationBarProps {
   onReload: () => void
   onInteract?: () => void
 
+  // Other browser shapes the address bar can suggest switching to
+  getOpenShapes: () => OpenBrowserShape[]
+  onSwitchToShape: (shapeId: TLShapeId) => void
+
   // NEW: fit-screen toggle
   fitMode: boolean
   onToggleFit: () => void
+
+  profileId: string
+  profiles: BrowserProfile[]
+  onProfileChange: (profileId: string) => void
+  onCreateProfile: (name: string) => void
+
+  // Speaker toggle shows while the tab plays sound (or is muted)
+  audible: boolean
+  muted: boolean
+  onToggleMute: () => void
+  onMuteOthers: () => void
+
+  // Content blocking for the page's site; hidden when 'off'
+  shield: ShieldState
+  blockedCount: number
+  onToggleShield: () => void
+
+  // Page zoom of the tab (1 = 100%), not the canvas camera
+  zoomFactor: number
+  onZoomReset: () => void
+
+  onSavePdf: (options: PdfOptions) => void
+  onCaptureFullPage: () => void
+
+  // Present while find-in-page is open for this tab
+  find?: FindBarProps | null
 }
 
 // Type-safe button keys
@@ -67,10 +110,37 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
   onForward,
   onReload,
   onInteract,
+  getOpenShapes,
+  onSwitchToShape,
   fitMode,
   onToggleFit,
+  profileId,
+  profiles,
+  onProfileChange,
+  onCreateProfile,
+  audible,
+  muted,
+  onToggleMute,
+  onMuteOthers,
+  shield,
+  blockedCount,
+  onToggleShield,
+  zoomFactor,
+  onZoomReset,
+  onSavePdf,
+  onCaptureFullPage,
+  find,
 }) => {
   const [urlInput, setUrlInput] = useState(navState.currentUrl)
+  const searchEngines = useSearchEngines()
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  // What the user typed, as opposed to the inline completion or a highlighted row
+  const [typed, setTyped] = useState('')
+  const [omniboxOpen, setOmniboxOpen] = useState(false)
+  const [allowCompletion, setAllowCompletion] = useState(true)
+  const [selected, setSelected] = useState(-1)
+  const pendingSelection = useRef<[number, number] | null>(null)
+  const omnibox = useOmniboxSuggestions(typed, omniboxOpen, allowCompletion, getOpenShapes)
   const [activeButton, setActiveButton] = useState<ButtonKey | null>(null)
   const [inputState, setInputState] = useState<InputFocusState>({
     isFocused: false,
@@ -81,25 +151,86 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
     setUrlInput(navState.currentUrl)
   }, [navState.currentUrl])
 
+  // Show the completed address with the added part selected, so typing on replaces it
+  useEffect(() => {
+    if (!omnibox.completion || selected !== -1) return
+    setUrlInput(omnibox.completion)
+    pendingSelection.current = [typed.length, omnibox.completion.length]
+  }, [omnibox.completion, typed, selected])
+
+  useLayoutEffect(() => {
+    const range = pendingSelection.current
+    if (!range || !inputRef.current) return
+    pendingSelection.current = null
+    inputRef.current.setSelectionRange(range[0], range[1])
+  })
+
+  const closeOmnibox = useCallback(() => {
+    setOmniboxOpen(false)
+    setSelected(-1)
+  }, [])
+
+  const acceptSuggestion = (suggestion: OmniboxSuggestion): void => {
+    onInteract?.()
+    if (suggestion.kind === 'keyword') {
+      setUrlInput(suggestion.fill)
+      setTyped(suggestion.fill)
+      setSelected(-1)
+      return
+    }
+    closeOmnibox()
+    if (suggestion.kind === 'shape' && suggestion.shapeId) {
+      setUrlInput(navState.currentUrl)
+      inputRef.current?.blur()
+      onSwitchToShape(suggestion.shapeId)
+      return
+    }
+    setUrlInput(suggestion.url)
+    onUrlChange(suggestion.url)
+  }
+
+  const handleOmniboxKey = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    onInteract?.()
+    const items = omnibox.suggestions
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!omniboxOpen || items.length === 0) return
+      e.preventDefault()
+      const next = e.key === 'ArrowDown' ? Math.min(items.length - 1, selected + 1) : Math.max(-1, selected - 1)
+      setSelected(next)
+      setUrlInput(next === -1 ? omnibox.completion ?? typed : items[next].fill)
+    } else if (e.key === 'Enter' && omniboxOpen && items[selected]) {
+      e.preventDefault()
+      acceptSuggestion(items[selected])
+    } else if (e.key === 'Tab' && omniboxOpen) {
+      // Tab-to-search once a keyword is typed or highlighted
+      const keyword = selected >= 0
+        ? items[selected]
+        : items.find((s) => s.kind === 'keyword' && s.fill.trim() === typed.trim().toLowerCase())
+      if (keyword?.kind !== 'keyword') return
+      e.preventDefault()
+      acceptSuggestion(keyword)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      if (omniboxOpen) {
+        setUrlInput(typed)
+        closeOmnibox()
+      } else {
+        setUrlInput(navState.currentUrl)
+        e.currentTarget.blur()
+      }
+    }
+  }
+
   const handleSubmit = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault()
       onInteract?.()
+      closeOmnibox()
       const trimmed = urlInput.trim()
       if (!trimmed) return
-
-      const isHttpUrl = trimmed.startsWith('http://') || trimmed.startsWith('https://')
-      const isDomainLike = trimmed.includes('.')
-
-      if (isHttpUrl) {
-        onUrlChange(trimmed)
-      } else if (isDomainLike) {
-        onUrlChange(`https://${trimmed}`)
-      } else {
-        onUrlChange(`https://www.google.com/search?q=${encodeURIComponent(trimmed)}`)
-      }
+      onUrlChange(resolveAddressInput(trimmed, searchEngines))
     },
-    [onInteract, onUrlChange, urlInput]
+    [onInteract, onUrlChange, urlInput, searchEngines, closeOmnibox]
   )
 
   interface ButtonConfig {
@@ -276,18 +407,28 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
 
       <form
         onSubmit={handleSubmit}
-        style={{ flex: 1, display: 'flex' }}
+        style={{ flex: 1, display: 'flex', position: 'relative' }}
         onPointerDown={(e) => {
           e.stopPropagation()
           onInteract?.()
         }}
       >
         <input
+          ref={inputRef}
           type="text"
           value={urlInput}
+          role="combobox"
+          aria-expanded={omniboxOpen && omnibox.suggestions.length > 0}
+          aria-autocomplete="both"
           onChange={(e) => {
             onInteract?.()
-            setUrlInput(e.target.value)
+            const value = e.target.value
+            setUrlInput(value)
+            setTyped(value)
+            setSelected(-1)
+            setOmniboxOpen(true)
+            // Completing while the user deletes would put back what they just removed
+            setAllowCompletion(!(e.nativeEvent as InputEvent).inputType?.startsWith('delete'))
           }}
           placeholder="Search or enter address"
           style={getInputStyle()}
@@ -298,8 +439,9 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
           }}
           onBlur={() => {
             setInputState((prev) => ({ ...prev, isFocused: false }))
+            closeOmnibox()
           }}
-          onKeyDown={() => onInteract?.()}
+          onKeyDown={handleOmniboxKey}
           onMouseDown={(e) => {
             e.stopPropagation()
             onInteract?.()
@@ -322,8 +464,122 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
             setInputState((prev) => ({ ...prev, isHovered: false }))
           }}
         />
+        {omniboxOpen && (
+          <OmniboxDropdown
+            suggestions={omnibox.suggestions}
+            selected={selected}
+            onHover={setSelected}
+            onAccept={acceptSuggestion}
+          />
+        )}
       </form>
 
+      <BookmarkStar url={navState.currentUrl} title={navState.title} onInteract={onInteract} />
+
+      {(audible || muted) && (
+        <button
+          type="button"
+          title={`${muted ? 'Unmute' : 'Mute'} tab (Shift-click: mute all other tabs)`}
+          aria-label={muted ? 'Unmute tab' : 'Mute tab'}
+          onPointerDown={(e) => {
+            e.stopPropagation()
+            onInteract?.()
+            if (e.shiftKey) onMuteOthers()
+            else onToggleMute()
+          }}
+          style={{
+            width: '28px',
+            height: '28px',
+            border: 'none',
+            borderRadius: '4px',
+            background: muted ? STYLES.COLORS.DISABLED_BACKGROUND : STYLES.COLORS.BACKGROUND,
+            cursor: 'pointer',
+            fontSize: '14px',
+            userSelect: 'none',
+          }}
+        >
+          {muted ? '🔇' : '🔊'}
+        </button>
+      )}
+
+      {shield !== 'off' && (
+        <button
+          type="button"
+          title={shield === 'active'
+            ? `${blockedCount} request${blockedCount === 1 ? '' : 's'} blocked. Click to allow ads on this site`
+            : 'Blocking is off for this site. Click to turn it back on'}
+          aria-label={shield === 'active' ? 'Turn off blocking for this site' : 'Turn on blocking for this site'}
+          onPointerDown={(e) => { e.stopPropagation(); onInteract?.(); onToggleShield() }}
+          style={{
+            position: 'relative',
+            width: '28px',
+            height: '28px',
+            border: 'none',
+            borderRadius: '4px',
+            background: shield === 'active' ? STYLES.COLORS.BACKGROUND : STYLES.COLORS.DISABLED_BACKGROUND,
+            opacity: shield === 'active' ? 1 : 0.6,
+            cursor: 'pointer',
+            fontSize: '14px',
+            userSelect: 'none',
+          }}
+        >
+          🛡
+          {shield === 'active' && blockedCount > 0 && (
+            <span
+              style={{
+                position: 'absolute',
+                top: '-3px',
+                right: '-4px',
+                minWidth: '14px',
+                height: '14px',
+                padding: '0 3px',
+                borderRadius: '7px',
+                background: STYLES.COLORS.PRIMARY,
+                color: 'white',
+                fontSize: '9px',
+                lineHeight: '14px',
+                boxSizing: 'border-box',
+              }}
+            >
+              {blockedCount > 99 ? '99+' : blockedCount}
+            </span>
+          )}
+        </button>
+      )}
+
+      {Math.abs(zoomFactor - 1) > 0.001 && (
+        <button
+          type="button"
+          title="Reset page zoom (Ctrl+0)"
+          aria-label={`Page zoom ${Math.round(zoomFactor * 100)}%, reset`}
+          onPointerDown={(e) => { e.stopPropagation(); onInteract?.(); onZoomReset() }}
+          style={{
+            height: '24px',
+            padding: '0 8px',
+            borderRadius: '12px',
+            border: `1px solid ${STYLES.COLORS.INPUT_BORDER}`,
+            background: 'white',
+            color: STYLES.COLORS.TEXT,
+            fontSize: '11px',
+            cursor: 'pointer',
+            userSelect: 'none',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {Math.round(zoomFactor * 100)}%
+        </button>
+      )}
+
+      <PageMenu onSavePdf={onSavePdf} onCaptureFullPage={onCaptureFullPage} onInteract={onInteract} />
+
+      <ProfileBadge
+        profileId={profileId}
+        profiles={profiles}
+        onSelect={onProfileChange}
+        onCreate={onCreateProfile}
+        onInteract={onInteract}
+      />
+
       {/* Right side: Fit screen toggle */}
       <button
         type="button"
@@ -336,6 +592,8 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
       </button>
 
 
+      {find && <FindBar {...find} />}
+
       {isLoading && (
         <div
           style={{
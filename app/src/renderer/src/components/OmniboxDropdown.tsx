@@ -0,0 +1,82 @@
+import React from 'react'
+import type { OmniboxSuggestion, OmniboxSuggestionKind } from '../Utils/omnibox'
+
+interface OmniboxDropdownProps {
+  suggestions: OmniboxSuggestion[]
+  selected: number
+  onHover: (index: number) => void
+  onAccept: (suggestion: OmniboxSuggestion) => void
+}
+
+const KIND_ICONS: Record<OmniboxSuggestionKind, string> = {
+  url: '🌐',
+  search: '🔍',
+  keyword: '⇥',
+  shape: '▣',
+  bookmark: '★',
+  history: '🕘',
+}
+
+const ellipsis: React.CSSProperties = { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }
+
+function detailFor(s: OmniboxSuggestion): string {
+  if (s.kind === 'shape') return 'Switch to shape'
+  if (s.kind === 'history' || s.kind === 'bookmark') return s.url
+  if (s.kind === 'keyword') return 'Press Tab to search'
+  return ''
+}
+
+/** Suggestion list under the address bar; the input keeps focus and handles the keys. */
+export const OmniboxDropdown: React.FC<OmniboxDropdownProps> = ({ suggestions, selected, onHover, onAccept }) => {
+  if (suggestions.length === 0) return null
+  return (
+    <div
+      role="listbox"
+      style={{
+        position: 'absolute',
+        top: '36px',
+        left: 0,
+        right: 0,
+        background: 'white',
+        border: '1px solid #dee2e6',
+        borderRadius: '6px',
+        boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+        padding: '4px 0',
+        zIndex: 1001,
+        fontSize: '12px',
+      }}
+    >
+      {suggestions.map((s, i) => {
+        const detail = detailFor(s)
+        return (
+          <div
+            key={`${s.kind}:${s.shapeId ?? s.url}:${s.fill}`}
+            role="option"
+            aria-selected={i === selected}
+            // Keep focus in the input so blur does not close the list before the click lands
+            onPointerDown={(e) => { e.preventDefault(); e.stopPropagation() }}
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHover(i)}
+            onClick={() => onAccept(s)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '4px 10px',
+              cursor: 'pointer',
+              background: i === selected ? '#e7f5ff' : 'transparent',
+            }}
+          >
+            <span style={{ width: '16px', textAlign: 'center', color: '#868e96' }}>{KIND_ICONS[s.kind]}</span>
+            <span style={{ ...ellipsis, flexShrink: 1 }}>{s.title || s.url}</span>
+            {detail && (
+              <span style={{ ...ellipsis, flex: 1, minWidth: 0, color: s.kind === 'shape' ? '#1971c2' : '#868e96', fontSize: '11px' }}>
+                — {detail}
+              </span>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react'
+import type { PdfMargins, PdfPageSize, PrintToPdfPayload } from '../../../types/overlay'
+import { panelButtonStyle } from '../Utils/panels'
+
+export type PdfOptions = Omit<PrintToPdfPayload, 'tabId'>
+
+interface PageMenuProps {
+  onSavePdf: (options: PdfOptions) => void
+  onCaptureFullPage: () => void
+  onInteract?: () => void
+}
+
+const PAGE_SIZES: PdfPageSize[] = ['A4', 'Letter', 'Legal', 'A3', 'A5', 'Tabloid']
+const MARGINS: Array<{ value: Exclude<PdfMargins, object>; label: string }> = [
+  { value: 'default', label: 'Default' },
+  { value: 'minimum', label: 'Minimum' },
+  { value: 'none', label: 'None' },
+]
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px',
+  fontSize: '12px',
+  padding: '3px 4px',
+}
+
+/** "⋯" page actions next to the address bar. */
+export const PageMenu: React.FC<PageMenuProps> = ({ onSavePdf, onCaptureFullPage, onInteract }) => {
+  const [open, setOpen] = useState(false)
+  const [pageSize, setPageSize] = useState<PdfPageSize>('A4')
+  const [landscape, setLandscape] = useState(false)
+  const [margins, setMargins] = useState<Exclude<PdfMargins, object>>('default')
+  const [printBackground, setPrintBackground] = useState(true)
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        title="Page actions"
+        aria-label="Page actions"
+        onPointerDown={(e) => { e.stopPropagation(); onInteract?.(); setOpen((v) => !v) }}
+        style={{
+          width: '28px',
+          height: '28px',
+          border: 'none',
+          borderRadius: '4px',
+          background: open ? '#d0e4ff' : '#f0f0f0',
+          cursor: 'pointer',
+          fontSize: '14px',
+          userSelect: 'none',
+        }}
+      >
+        ⋯
+      </button>
+
+      {open && (
+        <div
+          onPointerDown={(e) => e.stopPropagation()}
+          style={{
+            position: 'absolute',
+            top: '34px',
+            right: 0,
+            width: '220px',
+            background: 'white',
+            border: '1px solid #dee2e6',
+            borderRadius: '6px',
+            boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+            padding: '6px',
+            zIndex: 1001,
+          }}
+        >
+          <button
+            type="button"
+            style={{ ...panelButtonStyle, width: '100%', marginBottom: '8px' }}
+            onPointerDown={(e) => {
+              e.stopPropagation()
+              onInteract?.()
+              setOpen(false)
+              onCaptureFullPage()
+            }}
+          >
+            Capture full page to canvas
+          </button>
+          <div style={{ fontSize: '11px', fontWeight: 600, color: '#868e96', padding: '2px 4px 4px' }}>Save as PDF</div>
+          <label style={rowStyle}>
+            Page size
+            <select value={pageSize} onChange={(e) => setPageSize(e.target.value as PdfPageSize)} style={{ fontSize: '11px' }}>
+              {PAGE_SIZES.map((s) => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+          <label style={rowStyle}>
+            Margins
+            <select value={margins} onChange={(e) => setMargins(e.target.value as Exclude<PdfMargins, object>)} style={{ fontSize: '11px' }}>
+              {MARGINS.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+          </label>
+          <label style={rowStyle}>
+            Landscape
+            <input type="checkbox" checked={landscape} onChange={(e) => setLandscape(e.target.checked)} />
+          </label>
+          <label style={rowStyle}>
+            Background graphics
+            <input type="checkbox" checked={printBackground} onChange={(e) => setPrintBackground(e.target.checked)} />
+          </label>
+          <button
+            type="button"
+            style={{ ...panelButtonStyle, width: '100%', marginTop: '4px' }}
+            onPointerDown={(e) => {
+              e.stopPropagation()
+              onInteract?.()
+              setOpen(false)
+              onSavePdf({ pageSize, landscape, margins, printBackground })
+            }}
+          >
+            Save PDF to canvas
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
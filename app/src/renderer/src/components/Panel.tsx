@@ -0,0 +1,61 @@
+import React from 'react'
+
+interface PanelProps {
+  title: string
+  onClose: () => void
+  width?: number
+  actions?: React.ReactNode
+  children: React.ReactNode
+}
+
+export const Panel: React.FC<PanelProps> = ({ title, onClose, width = 380, actions, children }) => {
+  return (
+    <div
+      // Keep canvas tools and hotkeys from reacting to clicks/typing in the panel
+      onPointerDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+      style={{
+        position: 'fixed',
+        top: '56px',
+        right: '12px',
+        bottom: '56px',
+        width: `${width}px`,
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'white',
+        border: '1px solid #dee2e6',
+        borderRadius: '8px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.18)',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        color: '#333',
+        zIndex: 2000,
+        pointerEvents: 'auto',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '10px 12px',
+          borderBottom: '1px solid #e9ecef',
+        }}
+      >
+        <div style={{ flex: 1, fontWeight: 600 }}>{title}</div>
+        {actions}
+        <button
+          type="button"
+          aria-label="Close"
+          title="Close"
+          onClick={onClose}
+          style={{ border: 'none', background: 'transparent', fontSize: '16px', cursor: 'pointer', color: '#868e96' }}
+        >
+          ×
+        </button>
+      </div>
+      <div style={{ flex: 1, overflowY: 'auto', padding: '8px 12px' }}>{children}</div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react'
+import type { Editor } from 'tldraw'
+import { TOGGLE_PANEL_EVENT } from '../Utils/panels'
+import type { PanelKind } from '../Utils/panels'
+import { BookmarksPanel } from './BookmarksPanel'
+import { DownloadsPanel } from './DownloadsPanel'
+import { HistoryPanel } from './HistoryPanel'
+import { SettingsPanel } from './SettingsPanel'
+import { TaskManagerPanel } from './TaskManagerPanel'
+
+interface PanelHostProps {
+  editorRef: React.RefObject<Editor | null>
+}
+
+export const PanelHost: React.FC<PanelHostProps> = ({ editorRef }) => {
+  const [open, setOpen] = useState<PanelKind | null>(null)
+
+  useEffect(() => {
+    const onToggle = (event: Event): void => {
+      const { panel } = (event as CustomEvent<{ panel: PanelKind }>).detail ?? {}
+      if (!panel) return
+      setOpen((prev) => (prev === panel ? null : panel))
+    }
+    window.addEventListener(TOGGLE_PANEL_EVENT, onToggle as EventListener)
+    return () => window.removeEventListener(TOGGLE_PANEL_EVENT, onToggle as EventListener)
+  }, [])
+
+  const close = (): void => setOpen(null)
+
+  switch (open) {
+    case 'bookmarks': return <BookmarksPanel editorRef={editorRef} onClose={close} />
+    case 'downloads': return <DownloadsPanel onClose={close} />
+    case 'history': return <HistoryPanel editorRef={editorRef} onClose={close} />
+    case 'settings': return <SettingsPanel onClose={close} />
+    case 'tasks': return <TaskManagerPanel editorRef={editorRef} onClose={close} />
+    default: return null
+  }
+}
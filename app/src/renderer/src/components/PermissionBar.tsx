@@ -0,0 +1,63 @@
+import React, { useState } from 'react'
+import type { PermissionRequestInfo } from '../../../types/overlay'
+import { panelButtonStyle } from '../Utils/panels'
+import { describePermission, hostOf } from '../Utils/permissions'
+
+interface PermissionBarProps {
+  request: PermissionRequestInfo
+  pendingCount: number
+  onInteract?: () => void
+}
+
+/** Inline prompt shown under the navigation bar while a site waits on a permission. */
+export const PermissionBar: React.FC<PermissionBarProps> = ({ request, pendingCount, onInteract }) => {
+  const [remember, setRemember] = useState(true)
+
+  const respond = (granted: boolean) => (e: React.PointerEvent): void => {
+    e.stopPropagation()
+    onInteract?.()
+    void window.overlay.respondPermission({ id: request.id, granted, remember })
+  }
+
+  return (
+    <div
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '6px 10px',
+        background: '#fff9db',
+        borderBottom: '1px solid #ffe066',
+        fontSize: '12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#333',
+      }}
+    >
+      <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        <strong>{hostOf(request.origin)}</strong> wants to{' '}
+        {describePermission(request.permission, request.mediaTypes)}
+        {pendingCount > 1 ? ` (+${pendingCount - 1} more)` : ''}
+      </span>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '4px', whiteSpace: 'nowrap', userSelect: 'none' }}>
+        <input
+          type="checkbox"
+          checked={remember}
+          onChange={(e) => setRemember(e.target.checked)}
+          onPointerDown={(e) => e.stopPropagation()}
+        />
+        Remember
+      </label>
+      <button type="button" style={panelButtonStyle} onPointerDown={respond(false)}>
+        Block
+      </button>
+      <button
+        type="button"
+        style={{ ...panelButtonStyle, background: '#007bff', borderColor: '#007bff', color: 'white' }}
+        onPointerDown={respond(true)}
+      >
+        Allow
+      </button>
+    </div>
+  )
+}
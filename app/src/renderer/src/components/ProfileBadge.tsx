@@ -0,0 +1,129 @@
+import React, { useState } from 'react'
+import type { BrowserProfile } from '../../../types/overlay'
+
+interface ProfileBadgeProps {
+  profileId: string
+  profiles: BrowserProfile[]
+  onSelect: (profileId: string) => void
+  onCreate: (name: string) => void
+  onInteract?: () => void
+}
+
+const FALLBACK: BrowserProfile = { id: 'default', name: 'Default', color: '#868e96' }
+
+export const ProfileBadge: React.FC<ProfileBadgeProps> = ({
+  profileId,
+  profiles,
+  onSelect,
+  onCreate,
+  onInteract,
+}) => {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+  const current = profiles.find((p) => p.id === profileId) ?? FALLBACK
+
+  const submitDraft = (): void => {
+    const name = draft.trim()
+    if (!name) return
+    onCreate(name)
+    setDraft('')
+    setOpen(false)
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        title={`Profile: ${current.name}`}
+        aria-label={`Profile: ${current.name}`}
+        onPointerDown={(e) => { e.stopPropagation(); onInteract?.(); setOpen((v) => !v) }}
+        style={{
+          height: '24px',
+          minWidth: '24px',
+          padding: '0 8px',
+          borderRadius: '12px',
+          border: 'none',
+          background: current.color,
+          color: 'white',
+          fontSize: '11px',
+          fontWeight: 600,
+          cursor: 'pointer',
+          userSelect: 'none',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {current.name}
+      </button>
+
+      {open && (
+        <div
+          onPointerDown={(e) => e.stopPropagation()}
+          style={{
+            position: 'absolute',
+            top: '30px',
+            right: 0,
+            minWidth: '180px',
+            background: 'white',
+            border: '1px solid #dee2e6',
+            borderRadius: '6px',
+            boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+            padding: '4px',
+            zIndex: 1001,
+          }}
+        >
+          {profiles.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onPointerDown={(e) => {
+                e.stopPropagation()
+                onInteract?.()
+                setOpen(false)
+                if (p.id !== current.id) onSelect(p.id)
+              }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                width: '100%',
+                padding: '6px 8px',
+                border: 'none',
+                borderRadius: '4px',
+                background: p.id === current.id ? '#e7f1ff' : 'transparent',
+                cursor: 'pointer',
+                fontSize: '12px',
+                textAlign: 'left',
+              }}
+            >
+              <span style={{ width: '10px', height: '10px', borderRadius: '50%', background: p.color }} />
+              {p.name}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={draft}
+            placeholder="New profile…"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation()
+              if (e.key === 'Enter') submitDraft()
+              if (e.key === 'Escape') setOpen(false)
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            style={{
+              width: '100%',
+              marginTop: '4px',
+              height: '26px',
+              padding: '0 8px',
+              border: '1px solid #ced4da',
+              borderRadius: '4px',
+              fontSize: '12px',
+              boxSizing: 'border-box',
+              outline: 'none',
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
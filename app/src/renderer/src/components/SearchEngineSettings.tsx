@@ -0,0 +1,133 @@
+import React, { useState } from 'react'
+import { toast } from 'react-hot-toast'
+import type { SearchEngine, SearchEngineInput, SearchEnginesResult } from '../../../types/overlay'
+import { panelButtonStyle } from '../Utils/panels'
+import { useSearchEngines } from '../Utils/useSearchEngines'
+
+const inputStyle: React.CSSProperties = {
+  height: '24px',
+  padding: '0 6px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '11px',
+  minWidth: 0,
+  boxSizing: 'border-box',
+}
+
+const SOURCE_LABELS: Record<SearchEngine['source'], string> = {
+  'built-in': '',
+  custom: '',
+  discovered: 'found on site',
+}
+
+async function report(pending: Promise<SearchEnginesResult>): Promise<boolean> {
+  const res = await pending
+  if (!res.ok) toast.error(res.error)
+  return res.ok
+}
+
+/** Settings section: default search engine, keyword shortcuts and custom engines. */
+export const SearchEngineSettings: React.FC = () => {
+  const registry = useSearchEngines()
+  const [draft, setDraft] = useState<SearchEngineInput>({ name: '', keyword: '', url: '' })
+  const [editing, setEditing] = useState<{ id: string; field: 'keyword' | 'url'; value: string } | null>(null)
+
+  if (!registry) return null
+
+  const commitEdit = async (): Promise<void> => {
+    if (!editing) return
+    const { id, field, value } = editing
+    setEditing(null)
+    await report(window.overlay.updateSearchEngine({ id, patch: { [field]: value } }))
+  }
+
+  const editable = (engine: SearchEngine, field: 'keyword' | 'url'): React.ReactNode => {
+    if (editing?.id === engine.id && editing.field === field) {
+      return (
+        <input
+          autoFocus
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+          onBlur={() => { void commitEdit() }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+            if (e.key === 'Escape') setEditing(null)
+          }}
+          style={{ ...inputStyle, width: field === 'keyword' ? '56px' : '100%' }}
+        />
+      )
+    }
+    const value = engine[field]
+    return (
+      <span
+        title={`${value || 'No keyword'}\nClick to edit`}
+        onClick={() => setEditing({ id: engine.id, field, value })}
+        style={{
+          cursor: 'text',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          color: field === 'url' ? '#868e96' : value ? '#1971c2' : '#adb5bd',
+          fontSize: '11px',
+        }}
+      >
+        {value || '—'}
+      </span>
+    )
+  }
+
+  return (
+    <div style={{ paddingBottom: '12px', marginBottom: '12px', borderBottom: '1px solid #f1f3f5' }}>
+      <div style={{ fontWeight: 600, marginBottom: '6px' }}>Search engines</div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', marginBottom: '6px' }}>
+        <span>Address bar searches with</span>
+        <select
+          value={registry.defaultId}
+          onChange={(e) => { void report(window.overlay.setDefaultSearchEngine({ id: e.target.value })) }}
+          style={{ fontSize: '12px', height: '24px' }}
+        >
+          {registry.engines.map((e) => <option key={e.id} value={e.id}>{e.name}</option>)}
+        </select>
+      </label>
+      <div style={{ fontSize: '11px', color: '#868e96', marginBottom: '4px' }}>
+        Type a keyword and a space before your query, e.g. “gh electron”.
+      </div>
+
+      {registry.engines.map((engine) => (
+        <div
+          key={engine.id}
+          style={{ display: 'grid', gridTemplateColumns: '90px 60px 1fr auto', alignItems: 'center', gap: '6px', padding: '2px 0', fontSize: '12px' }}
+        >
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={engine.name}>
+            {engine.name}
+            {SOURCE_LABELS[engine.source] && <span style={{ fontSize: '10px', color: '#adb5bd' }}> · {SOURCE_LABELS[engine.source]}</span>}
+          </span>
+          {editable(engine, 'keyword')}
+          {editable(engine, 'url')}
+          <button
+            type="button"
+            style={panelButtonStyle}
+            disabled={engine.id === registry.defaultId}
+            title={engine.id === registry.defaultId ? 'The default engine cannot be removed' : 'Remove'}
+            onClick={() => { void report(window.overlay.removeSearchEngine({ id: engine.id })) }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <form
+        style={{ display: 'grid', gridTemplateColumns: '90px 60px 1fr auto', gap: '6px', marginTop: '6px' }}
+        onSubmit={async (e) => {
+          e.preventDefault()
+          if (await report(window.overlay.addSearchEngine(draft))) setDraft({ name: '', keyword: '', url: '' })
+        }}
+      >
+        <input value={draft.name} placeholder="Name" onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={inputStyle} />
+        <input value={draft.keyword} placeholder="Keyword" onChange={(e) => setDraft({ ...draft, keyword: e.target.value })} style={inputStyle} />
+        <input value={draft.url} placeholder="https://example.com/?q=%s" onChange={(e) => setDraft({ ...draft, url: e.target.value })} style={inputStyle} />
+        <button type="submit" style={panelButtonStyle} disabled={!draft.url.includes('%s')}>Add</button>
+      </form>
+    </div>
+  )
+}
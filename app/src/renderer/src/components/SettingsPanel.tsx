@@ -0,0 +1,21 @@
+import React from 'react'
+import { ContentBlockingSettings } from './ContentBlockingSettings'
+import { Panel } from './Panel'
+import { SearchEngineSettings } from './SearchEngineSettings'
+import { SitePermissionsSettings } from './SitePermissionsSettings'
+import { SpatialAudioSettings } from './SpatialAudioSettings'
+
+interface SettingsPanelProps {
+  onClose: () => void
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  return (
+    <Panel title="Settings" onClose={onClose}>
+      <SearchEngineSettings />
+      <SpatialAudioSettings />
+      <ContentBlockingSettings />
+      <SitePermissionsSettings />
+    </Panel>
+  )
+}
@@ -0,0 +1,110 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import type { PermissionGrant } from '../../../types/overlay'
+import { panelButtonStyle } from '../Utils/panels'
+import { describePermission, hostOf } from '../Utils/permissions'
+import { useProfiles } from '../Utils/useProfiles'
+
+/** Settings section listing remembered site permissions, grouped by profile + origin. */
+export const SitePermissionsSettings: React.FC = () => {
+  const [grants, setGrants] = useState<PermissionGrant[]>([])
+  const profiles = useProfiles()
+
+  const reload = useCallback(async (): Promise<void> => {
+    const res = await window.overlay.listPermissions()
+    if (res.ok) setGrants(res.grants)
+  }, [])
+
+  useEffect(() => {
+    void reload()
+    // A prompt answered with "Remember" adds a grant while the panel is open
+    return window.overlay.onNotice((n) => {
+      if (n.kind === 'permission-resolved') void reload()
+    })
+  }, [reload])
+
+  const groups = new Map<string, PermissionGrant[]>()
+  for (const g of grants) {
+    const key = `${g.profile}\n${g.origin}`
+    const list = groups.get(key)
+    if (list) list.push(g)
+    else groups.set(key, [g])
+  }
+
+  const profileName = (id: string): string => profiles.find((p) => p.id === id)?.name ?? id
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '6px' }}>
+        <div style={{ flex: 1, fontWeight: 600 }}>Site permissions</div>
+        {grants.length > 0 && (
+          <button
+            type="button"
+            style={panelButtonStyle}
+            onClick={async () => {
+              await window.overlay.clearPermissions()
+              await reload()
+            }}
+          >
+            Reset all
+          </button>
+        )}
+      </div>
+
+      {grants.length === 0 && (
+        <div style={{ color: '#868e96', padding: '8px 0' }}>Sites will ask before using your camera, location and more.</div>
+      )}
+
+      {[...groups.values()].map((list) => {
+        const { profile, origin } = list[0]
+        return (
+          <div key={`${profile}:${origin}`} style={{ padding: '8px 0', borderBottom: '1px solid #f1f3f5' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+              <span title={origin} style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {hostOf(origin)}
+              </span>
+              {profiles.length > 1 && <span style={{ fontSize: '11px', color: '#868e96' }}>{profileName(profile)}</span>}
+              <button
+                type="button"
+                style={panelButtonStyle}
+                onClick={async () => {
+                  await window.overlay.clearPermissions({ profile, origin })
+                  await reload()
+                }}
+              >
+                Forget site
+              </button>
+            </div>
+            {list.map((g) => (
+              <div key={g.permission} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', padding: '2px 0' }}>
+                <span style={{ flex: 1 }}>{describePermission(g.permission)}</span>
+                <select
+                  value={g.decision}
+                  onChange={async (e) => {
+                    const decision = e.target.value as PermissionGrant['decision']
+                    await window.overlay.setPermission({ profile, origin, permission: g.permission, decision })
+                    await reload()
+                  }}
+                  style={{ fontSize: '11px', height: '24px' }}
+                >
+                  <option value="allow">Allow</option>
+                  <option value="deny">Block</option>
+                </select>
+                <button
+                  type="button"
+                  style={panelButtonStyle}
+                  title="Ask next time"
+                  onClick={async () => {
+                    await window.overlay.setPermission({ profile, origin, permission: g.permission, decision: 'ask' })
+                    await reload()
+                  }}
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
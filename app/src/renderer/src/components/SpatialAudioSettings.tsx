@@ -0,0 +1,37 @@
+import React from 'react'
+import { updateSettings, useSettings } from '../Utils/useSettings'
+
+/** Settings section for distance-based tab volume and stereo pan. */
+export const SpatialAudioSettings: React.FC = () => {
+  const settings = useSettings()
+  if (!settings) return null
+  const { enabled, floor } = settings.spatialAudio
+
+  return (
+    <div style={{ paddingBottom: '12px', marginBottom: '12px', borderBottom: '1px solid #f1f3f5' }}>
+      <div style={{ fontWeight: 600, marginBottom: '6px' }}>Spatial audio</div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => { void updateSettings({ spatialAudio: { enabled: e.target.checked } }) }}
+        />
+        Fade and pan tab audio by position on the canvas
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', marginTop: '6px', color: enabled ? '#333' : '#adb5bd' }}>
+        <span style={{ whiteSpace: 'nowrap' }}>Off-screen volume</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          disabled={!enabled}
+          value={Math.round(floor * 100)}
+          onChange={(e) => { void updateSettings({ spatialAudio: { floor: Number(e.target.value) / 100 } }) }}
+          style={{ flex: 1 }}
+        />
+        <span style={{ width: '32px', textAlign: 'right' }}>{Math.round(floor * 100)}%</span>
+      </label>
+    </div>
+  )
+}
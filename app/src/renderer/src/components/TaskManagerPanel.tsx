@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react'
+import { toast } from 'react-hot-toast'
+import type { Editor, TLShapeId } from 'tldraw'
+import type { AppProcessMetrics, TabProcessMetrics } from '../../../types/overlay'
+import { Panel } from './Panel'
+import { panelButtonStyle } from '../Utils/panels'
+import { listOpenBrowserShapes, switchToBrowserShape } from '../Utils/browserShapes'
+import { hostOf } from '../Utils/permissions'
+
+interface TaskManagerPanelProps {
+  editorRef: React.RefObject<Editor | null>
+  onClose: () => void
+}
+
+type SortKey = 'memory' | 'cpu'
+
+type TaskRow = {
+  shapeId: TLShapeId
+  title: string
+  url: string
+  lifecycle: 'live' | 'frozen' | 'discarded' | 'crashed'
+  // Null while the tab has no renderer (discarded or crashed)
+  metrics: TabProcessMetrics | null
+  // Other tabs in the same renderer process
+  sharedWith: number
+}
+
+const POLL_MS = 2000
+
+const cell: React.CSSProperties = { width: '64px', flexShrink: 0, textAlign: 'right', fontVariantNumeric: 'tabular-nums' }
+const ellipsis: React.CSSProperties = { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }
+
+function formatMemory(kb: number): string {
+  const mb = kb / 1024
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`
+}
+
+function buildRows(editor: Editor, tabs: TabProcessMetrics[]): TaskRow[] {
+  const byTab = new Map(tabs.map((t) => [t.tabId, t]))
+  const perPid = new Map<number, number>()
+  for (const t of tabs) perPid.set(t.pid, (perPid.get(t.pid) ?? 0) + 1)
+  return listOpenBrowserShapes(editor).map((shape) => {
+    const tabId = String(shape.shapeId)
+    const metrics = byTab.get(tabId) ?? null
+    return {
+      shapeId: shape.shapeId,
+      title: shape.title,
+      url: shape.url,
+      lifecycle: window.__tabState?.get(tabId) ?? 'discarded',
+      metrics,
+      sharedWith: metrics ? (perPid.get(metrics.pid) ?? 1) - 1 : 0,
+    }
+  })
+}
+
+/** Per-tab CPU, memory and paint rate, with the lifecycle controls a runaway tab needs. */
+export const TaskManagerPanel: React.FC<TaskManagerPanelProps> = ({ editorRef, onClose }) => {
+  const [tabs, setTabs] = useState<TabProcessMetrics[]>([])
+  const [processes, setProcesses] = useState<AppProcessMetrics[]>([])
+  const [sort, setSort] = useState<SortKey>('memory')
+  // Bumped after an action so the rows pick up the new lifecycle before the next poll
+  const [, setRevision] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const poll = async (): Promise<void> => {
+      try {
+        const res = await window.overlay.getMetrics()
+        if (cancelled || !res.ok) return
+        setTabs(res.tabs)
+        setProcesses(res.processes)
+      } catch {
+        // IPC can fail during teardown; the next poll tries again
+      }
+    }
+    void poll()
+    const timer = window.setInterval(() => void poll(), POLL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [])
+
+  const editor = editorRef.current
+  const rows = editor ? buildRows(editor, tabs) : []
+  rows.sort((a, b) => {
+    const av = a.metrics ? (sort === 'cpu' ? a.metrics.cpu : a.metrics.memoryKB) : -1
+    const bv = b.metrics ? (sort === 'cpu' ? b.metrics.cpu : b.metrics.memoryKB) : -1
+    return bv - av
+  })
+
+  const act = async (run: () => Promise<unknown>): Promise<void> => {
+    try {
+      await run()
+    } catch (e) {
+      toast.error(`Task manager action failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+    setRevision((n) => n + 1)
+  }
+
+  const header = (key: SortKey, label: string): React.ReactNode => (
+    <span
+      role="button"
+      onClick={() => setSort(key)}
+      style={{ ...cell, cursor: 'pointer', color: sort === key ? '#212529' : '#868e96' }}
+    >
+      {label}{sort === key ? ' ↓' : ''}
+    </span>
+  )
+
+  return (
+    <Panel title="Task manager" onClose={onClose} width={560}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '0 0 6px', fontSize: '11px', fontWeight: 600, color: '#868e96', borderBottom: '1px solid #e9ecef' }}>
+        <span style={{ flex: 1 }}>Tab</span>
+        {header('memory', 'Memory')}
+        {header('cpu', 'CPU')}
+        <span style={cell}>FPS</span>
+        <span style={{ width: '150px', flexShrink: 0 }} />
+      </div>
+
+      {rows.length === 0 && <div style={{ color: '#868e96', padding: '8px 0' }}>No browser shapes on this page</div>}
+
+      {rows.map((row) => {
+        const tabId = String(row.shapeId)
+        const canEvict = row.lifecycle === 'live' || row.lifecycle === 'frozen'
+        return (
+          <div
+            key={tabId}
+            style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '5px 0', cursor: 'pointer' }}
+            title={`${row.url}\nClick to move to this shape`}
+            onClick={() => { if (editorRef.current) switchToBrowserShape(editorRef.current, row.shapeId) }}
+          >
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={ellipsis}>{row.title || row.url}</div>
+              <div style={{ ...ellipsis, fontSize: '11px', color: '#868e96' }}>
+                {row.lifecycle}
+                {row.metrics ? ` · pid ${row.metrics.pid}` : ''}
+                {row.sharedWith > 0 ? ` · shared with ${row.sharedWith} other ${row.sharedWith === 1 ? 'tab' : 'tabs'}` : ''}
+                {' · '}{hostOf(row.url)}
+              </div>
+            </div>
+            <span style={cell}>{row.metrics ? formatMemory(row.metrics.memoryKB) : '—'}</span>
+            <span style={cell}>{row.metrics ? `${row.metrics.cpu.toFixed(1)}%` : '—'}</span>
+            <span style={cell}>{row.metrics && row.lifecycle === 'live' ? row.metrics.frameRate : '—'}</span>
+            <div style={{ width: '150px', flexShrink: 0, display: 'flex', gap: '4px', justifyContent: 'flex-end' }} onClick={(e) => e.stopPropagation()}>
+              <button
+                type="button"
+                style={panelButtonStyle}
+                disabled={row.lifecycle !== 'live'}
+                title="Stop painting and running scripts until the tab is used again"
+                onClick={() => act(() => window.__browserTabs?.evictTab(row.shapeId, 'frozen') ?? Promise.resolve())}
+              >
+                Freeze
+              </button>
+              <button
+                type="button"
+                style={panelButtonStyle}
+                disabled={!canEvict}
+                title="Close the page and keep its poster; it reloads when the tab is used again"
+                onClick={() => act(() => window.__browserTabs?.evictTab(row.shapeId, 'discarded') ?? Promise.resolve())}
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                style={{ ...panelButtonStyle, color: '#c92a2a' }}
+                disabled={!row.metrics}
+                title={row.sharedWith > 0 ? 'End the renderer process, which also ends the tabs sharing it' : 'End the renderer process'}
+                onClick={() => act(async () => {
+                  const res = await window.overlay.endTabProcess({ tabId })
+                  if (!res.ok) toast.error(`Could not end the process: ${res.error}`)
+                })}
+              >
+                End
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      {processes.length > 0 && (
+        <>
+          <div style={{ fontSize: '11px', fontWeight: 600, color: '#868e96', padding: '12px 0 4px' }}>App processes</div>
+          {processes.map((p) => (
+            <div key={p.pid} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '3px 0', fontSize: '12px' }}>
+              <span style={{ ...ellipsis, flex: 1, minWidth: 0 }}>
+                {p.name ?? p.type} <span style={{ color: '#868e96', fontSize: '11px' }}>· pid {p.pid}</span>
+              </span>
+              <span style={cell}>{formatMemory(p.memoryKB)}</span>
+              <span style={cell}>{`${p.cpu.toFixed(1)}%`}</span>
+              <span style={cell} />
+              <span style={{ width: '150px', flexShrink: 0 }} />
+            </div>
+          ))}
+        </>
+      )}
+    </Panel>
+  )
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react'
+import type { TLShapeId } from 'tldraw'
+import type { Inputs } from './useLifecycleManager'
+import type { FrameRateEntry } from '../../types/overlay'
+
+const TICK_MS = 250
+
+const FPS_FOCUSED = 60
+const FPS_LARGE = 30
+const FPS_MEDIUM = 15
+const FPS_TINY = 5
+// Off-screen tabs are normally not painting at all; keep them at the floor
+const FPS_HIDDEN = 1
+// Unfocused tabs slow down while the camera pans or zooms so the canvas stays smooth
+const FPS_CAMERA_MOVING = 15
+
+// On-screen CSS pixel areas between the tiers
+const LARGE_PX = 640 * 400
+const TINY_PX = 240 * 150
+// A tab covering this much of the viewport counts as focused (e.g. fit mode)
+const FILL_SHARE = 0.6
+
+export type GovernorInputs = Pick<Inputs, 'getVisibleShapes' | 'getCamera' | 'getTabInfo' | 'getLifecycleState'> & {
+  readonly getViewportScreenArea: () => number
+  readonly isFocused: (shapeId: TLShapeId) => boolean
+  // Audible or has a playing media element
+  readonly isPlayingMedia: (tabId: string) => boolean
+}
+
+function targetFps(px: number, share: number, focused: boolean, playing: boolean, cameraMoving: boolean): number {
+  if (px <= 0) return FPS_HIDDEN
+  const main = focused || share >= FILL_SHARE
+  let fps = main ? FPS_FOCUSED : px >= LARGE_PX ? FPS_LARGE : px >= TINY_PX ? FPS_MEDIUM : FPS_TINY
+  // Video gets a smooth rate once it is big enough to watch
+  if (playing && px >= TINY_PX) fps = Math.max(fps, px >= LARGE_PX ? FPS_FOCUSED : FPS_LARGE)
+  if (cameraMoving && !main) fps = Math.min(fps, FPS_CAMERA_MOVING)
+  return fps
+}
+
+/**
+ * Sets each live tab's offscreen paint rate from how large it is on screen,
+ * whether it has focus or plays media, and whether the camera is moving.
+ */
+export function useFrameRateGovernor(inputs: GovernorInputs): void {
+  const sent = useRef(new Map<string, number>())
+
+  useEffect(() => {
+    let lastCamera = inputs.getCamera()
+
+    const tick = (): void => {
+      const camera = inputs.getCamera()
+      const cameraMoving = camera.x !== lastCamera.x || camera.y !== lastCamera.y || camera.zoom !== lastCamera.zoom
+      lastCamera = camera
+      const viewportArea = Math.max(1, inputs.getViewportScreenArea())
+
+      const changed: FrameRateEntry[] = []
+      for (const geom of inputs.getVisibleShapes()) {
+        const info = inputs.getTabInfo(geom.id)
+        if (!info) continue
+        // A revived tab starts at main's default rate, so forget what it had
+        if (inputs.getLifecycleState(info.tabId) !== 'live') {
+          sent.current.delete(info.tabId)
+          continue
+        }
+        const px = geom.w * geom.h * camera.zoom * camera.zoom * geom.overlap
+        const fps = targetFps(px, px / viewportArea, inputs.isFocused(geom.id), inputs.isPlayingMedia(info.tabId), cameraMoving)
+        if (sent.current.get(info.tabId) === fps) continue
+        sent.current.set(info.tabId, fps)
+        changed.push({ tabId: info.tabId, fps })
+      }
+      if (changed.length > 0) void window.overlay.setFrameRate(changed)
+    }
+
+    tick()
+    const interval = window.setInterval(tick, TICK_MS)
+    return () => window.clearInterval(interval)
+  }, [inputs])
+}
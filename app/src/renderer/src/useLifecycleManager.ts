@@ -1,14 +1,18 @@
 import { useEffect, useRef } from 'react'
 import type { TLShapeId } from 'tldraw'
 
-export type LifecycleState = 'live' | 'frozen' | 'discarded'
+export type LifecycleState = 'live' | 'frozen' | 'discarded' | 'crashed'
 export type PlacementState = 'active' | 'background'
+// System memory level reported by main every few seconds
+export type PressureLevel = 'normal' | 'elevated' | 'critical'
 
 export interface ShapeGeom {
   readonly id: TLShapeId
   readonly w: number
   readonly h: number
   readonly overlap: number
+  // Horizontal offset of the shape centre from the viewport centre, in half-viewport widths
+  readonly offsetX: number
 }
 
 export interface TabInfo {
@@ -23,11 +27,14 @@ export interface Inputs {
   readonly getLifecycleState: (tabId: string) => LifecycleState | undefined
   readonly now: () => number
   readonly getLastInteractionMs: (shapeId: TLShapeId) => number | undefined
+  readonly getPressure: () => PressureLevel
 }
 
 export interface Outputs {
   readonly setLifecycle: (shapeId: TLShapeId, state: LifecycleState) => void
   readonly setPlacement: (shapeId: TLShapeId, placement: PlacementState, needThumb: boolean) => void
+  // Tabs frozen or discarded ahead of their time limits because of memory pressure
+  readonly reportPressureEviction: (level: PressureLevel, frozen: number, discarded: number) => void
 }
 
 export interface Limits {
@@ -35,6 +42,8 @@ export interface Limits {
   readonly tinyPxFloor: number
   readonly freezeHiddenMs: number
   readonly discardFrozenMs: number
+  readonly pressureFreezeHiddenMs: number  // replaces freezeHiddenMs for hidden tabs under elevated/critical pressure
+  readonly pressureDiscardEveryMs: number  // while critical, one LRU frozen tab is discarded this often
 }
 
 // Below this zoom level the paint cap kicks in — you're in "overview" mode.
@@ -55,10 +64,12 @@ export function useLifecycleManager(inputs: Inputs, outputs: Outputs, limits: Li
     byTab: Map<string, Tracked>
     byShape: Map<TLShapeId, string>
     ticking: boolean
+    lastPressureDiscardAt: number
   }>({
     byTab: new Map(),
     byShape: new Map(),
     ticking: false,
+    lastPressureDiscardAt: 0,
   })
 
   // ---- Activity event: bump interaction time and ensure tab is live --------
@@ -80,6 +91,8 @@ export function useLifecycleManager(inputs: Inputs, outputs: Outputs, limits: Li
         }
         if (!tracked) return
       }
+      // Crashed tabs come back through the host's recovery, not through activity
+      if (tracked.life === 'crashed') return
 
       tracked.life = 'live'
       tracked.lastInteractionAt = inputs.now()
@@ -148,7 +161,7 @@ export function useLifecycleManager(inputs: Inputs, outputs: Outputs, limits: Li
         // Pull in any interaction bumps from Host
         for (const [shapeId, tabId] of st.current.byShape) {
           const tracked = st.current.byTab.get(tabId)
-          if (!tracked) continue
+          if (!tracked || tracked.life === 'crashed') continue
           const last = inputs.getLastInteractionMs(shapeId)
           if (typeof last === 'number' && last > tracked.lastInteractionAt) {
             tracked.lastInteractionAt = last
@@ -156,12 +169,40 @@ export function useLifecycleManager(inputs: Inputs, outputs: Outputs, limits: Li
           }
         }
 
+        // Memory pressure tightens the limits. While critical, discard the least
+        // recently used frozen tab every pressureDiscardEveryMs until main reports
+        // that memory recovered; the gap lets its next sample see what was freed.
+        const pressure = inputs.getPressure()
+        let pressureFrozen = 0
+        let pressureDiscarded = 0
+
+        if (pressure === 'critical' && now - st.current.lastPressureDiscardAt >= limits.pressureDiscardEveryMs) {
+          let lru: Tracked | null = null
+          for (const tracked of st.current.byTab.values()) {
+            if (tracked.life !== 'frozen') continue
+            if (!lru || tracked.lastInteractionAt < lru.lastInteractionAt) lru = tracked
+          }
+          if (lru) {
+            lru.life = 'discarded'
+            st.current.lastPressureDiscardAt = now
+            pressureDiscarded++
+          }
+        }
+
         // Age tabs — lifecycle is zoom-independent, always runs
         for (const tracked of st.current.byTab.values()) {
           const idle = now - tracked.lastInteractionAt
 
           if (tracked.life === 'live' && idle >= limits.freezeHiddenMs) {
             tracked.life = 'frozen'
+          } else if (
+            tracked.life === 'live' &&
+            pressure !== 'normal' &&
+            !visibleTabs.has(tracked.tabId) &&
+            idle >= limits.pressureFreezeHiddenMs
+          ) {
+            tracked.life = 'frozen'
+            pressureFrozen++
           } else if (tracked.life === 'frozen' && idle >= limits.freezeHiddenMs + limits.discardFrozenMs) {
             tracked.life = 'discarded'
           }
@@ -172,6 +213,10 @@ export function useLifecycleManager(inputs: Inputs, outputs: Outputs, limits: Li
           }
         }
 
+        if (pressureFrozen > 0 || pressureDiscarded > 0) {
+          outputs.reportPressureEviction(pressure, pressureFrozen, pressureDiscarded)
+        }
+
         // ---- Paint cap: decide which live+visible tabs actually get to paint --
         //
         // Above ZOOM_FULL_THRESHOLD: normal — only viewport-visible tabs paint.
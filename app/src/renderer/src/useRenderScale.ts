@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react'
+import type { Inputs } from './useLifecycleManager'
+import type { RenderScaleEntry } from '../../types/overlay'
+
+const TICK_MS = 250
+
+// Resolutions a surface snaps to, so small camera moves do not resize it
+const SCALE_STEPS = [0.25, 0.33, 0.5, 0.67, 0.75, 1, 1.25, 1.5, 2, 2.5, 3]
+
+export type RenderScaleInputs = Pick<Inputs, 'getVisibleShapes' | 'getCamera' | 'getTabInfo' | 'getLifecycleState'>
+export type RenderScaleOutputs = {
+  // Settled scale, for drawing posters at the matching level
+  readonly setRenderScale: (scale: number) => void
+}
+
+/** Smallest step covering `zoom × dpr`, so a surface is never upscaled on screen. */
+export function renderScaleFor(zoom: number, dpr: number): number {
+  const wanted = zoom * dpr
+  return SCALE_STEPS.find((step) => step >= wanted - 0.01) ?? SCALE_STEPS[SCALE_STEPS.length - 1]
+}
+
+/**
+ * Renders each live tab's offscreen surface at its on-screen pixel size. All
+ * tabs share the camera, so they get the same scale; it is only changed once a
+ * zoom gesture settles, since resizing a surface makes the page lay out again.
+ */
+export function useRenderScale(inputs: RenderScaleInputs, outputs: RenderScaleOutputs): void {
+  const sent = useRef(new Map<string, number>())
+
+  useEffect(() => {
+    let lastZoom = inputs.getCamera().zoom
+    let reported: number | null = null
+
+    const tick = (): void => {
+      const zoom = inputs.getCamera().zoom
+      const zooming = zoom !== lastZoom
+      lastZoom = zoom
+      const scale = renderScaleFor(zoom, window.devicePixelRatio || 1)
+      if (!zooming && scale !== reported) {
+        reported = scale
+        outputs.setRenderScale(scale)
+      }
+
+      const changed: RenderScaleEntry[] = []
+      for (const geom of inputs.getVisibleShapes()) {
+        const info = inputs.getTabInfo(geom.id)
+        if (!info) continue
+        // A revived tab starts at scale 1 in main, so forget what it had
+        if (inputs.getLifecycleState(info.tabId) !== 'live') {
+          sent.current.delete(info.tabId)
+          continue
+        }
+        if (zooming || sent.current.get(info.tabId) === scale) continue
+        sent.current.set(info.tabId, scale)
+        changed.push({ tabId: info.tabId, scale })
+      }
+      if (changed.length > 0) void window.overlay.setRenderScale(changed)
+    }
+
+    tick()
+    const interval = window.setInterval(tick, TICK_MS)
+    return () => window.clearInterval(interval)
+  }, [inputs, outputs])
+}
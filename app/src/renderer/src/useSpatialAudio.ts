@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react'
+import type { Inputs } from './useLifecycleManager'
+import type { SpatialAudioEntry, SpatialAudioSettings } from '../../types/overlay'
+
+const TICK_MS = 250
+// Keep some sound in both ears even at the viewport edges
+const PAN_SPREAD = 0.8
+// Skip IPC for changes nobody would hear
+const EPSILON = 0.02
+
+type SpatialInputs = Pick<Inputs, 'getVisibleShapes' | 'getTabInfo' | 'getLifecycleState'>
+
+/**
+ * Optional spatial audio: each live tab's gain follows how much of it is on
+ * screen (down to `floor` when fully off screen) and its pan follows its
+ * horizontal offset from the camera centre.
+ */
+export function useSpatialAudio(inputs: SpatialInputs, settings: SpatialAudioSettings | null): void {
+  const sent = useRef(new Map<string, { gain: number; pan: number }>())
+  const enabled = !!settings?.enabled
+  const floor = settings?.floor ?? 0
+
+  useEffect(() => {
+    if (!enabled) {
+      if (sent.current.size > 0) {
+        sent.current.clear()
+        void window.overlay.setSpatialAudio(null)
+      }
+      return
+    }
+
+    const tick = (): void => {
+      const changed: SpatialAudioEntry[] = []
+      for (const geom of inputs.getVisibleShapes()) {
+        const info = inputs.getTabInfo(geom.id)
+        if (!info) continue
+        // Frozen/discarded tabs are silent; a revived tab starts from scratch in main
+        if (inputs.getLifecycleState(info.tabId) !== 'live') {
+          sent.current.delete(info.tabId)
+          continue
+        }
+        const gain = floor + (1 - floor) * geom.overlap
+        const pan = Math.max(-1, Math.min(1, geom.offsetX)) * PAN_SPREAD
+        const prev = sent.current.get(info.tabId)
+        if (prev && Math.abs(prev.gain - gain) < EPSILON && Math.abs(prev.pan - pan) < EPSILON) continue
+        sent.current.set(info.tabId, { gain, pan })
+        changed.push({ tabId: info.tabId, gain, pan })
+      }
+      if (changed.length > 0) void window.overlay.setSpatialAudio(changed)
+    }
+
+    tick()
+    const interval = window.setInterval(tick, TICK_MS)
+    return () => window.clearInterval(interval)
+  }, [enabled, floor, inputs])
+}
@@ -19,12 +19,21 @@ export interface NavigationState {
 
 export type Flags = {
   audible: boolean
+  muted: boolean
+  // A media element is playing, audible or not
+  playingMedia: boolean
   capturing: boolean
   devtools: boolean
   downloads: boolean
   pinned: boolean
+  // Requests cancelled by content blocking since the last main-frame navigation
+  blocked: number
+  shield: ShieldState
 }
 
+// 'off' when blocking is disabled globally or the page is not http(s)
+export type ShieldState = 'active' | 'allowed' | 'off'
+
 export type NavigationStateResult =
   | ({ ok: true } & NavigationState & { isLoading: boolean })
   | { ok: false; error: string }
@@ -33,12 +42,47 @@ export type CaptureResult =
   | { ok: true; dataUrl: string }
   | { ok: false; error: string }
 
-export type LifecycleState = 'live' | 'frozen' | 'discarded'
+// 'crashed' is renderer-side only: the view is gone until it is recovered
+export type LifecycleState = 'live' | 'frozen' | 'discarded' | 'crashed'
 export type LifecycleKind = 'hot' | 'warm' | 'frozen'
 
+// From Electron's render-process-gone details
+export interface TabCrashInfo {
+  reason: 'clean-exit' | 'abnormal-exit' | 'killed' | 'crashed' | 'oom' | 'launch-failed' | 'integrity-failure' | 'memory-eviction'
+  exitCode: number
+  at: number
+  // Ended from the task manager, so it is not reloaded automatically
+  endedByUser: boolean
+}
+
+// A main-frame load that failed, shown as an error page in the shape
+export interface NavError {
+  // Chromium net error code, e.g. -105
+  code: number
+  // Chromium's name for it, e.g. ERR_NAME_NOT_RESOLVED
+  description: string
+  url: string
+  kind: 'dns' | 'connection' | 'timeout' | 'certificate' | 'other'
+  at: number
+}
+
 export type CreateTabPayload =
-  | { shapeId: string; url: string }
-  | { shapeId: string; restore: true }
+  | { shapeId: string; url: string; profile?: string }
+  | { shapeId: string; restore: true; profile?: string }
+
+export interface BrowserProfile {
+  id: string
+  name: string
+  color: string
+}
+
+export type ProfilesResult =
+  | { ok: true; profiles: BrowserProfile[] }
+  | { ok: false; error: string }
+
+export type CreateProfileResult =
+  | { ok: true; profile: BrowserProfile }
+  | { ok: false; error: string }
 
 export interface TabIdPayload {
   tabId: string
@@ -74,11 +118,38 @@ export interface PopupRequestPayload {
 export interface FreezePayload { tabId: string }
 export interface ThawPayload { tabId: string }
 
+export type ThumbFormat = 'webp' | 'jpeg'
+
 export interface SnapshotRequest {
   tabId: string
+  // Width of the largest level; the captured size when omitted
   maxWidth?: number
+  format?: ThumbFormat
+  // 1..100
+  quality?: number
+}
+
+// One resolution of a tab poster; lists are ordered smallest first
+export interface ThumbLevel {
+  width: number
+  height: number
+  dataUrl: string
+}
+
+// A poster level saved under userData/thumbs
+export interface PersistedThumbLevel {
+  width: number
+  height: number
+  path: string
 }
 
+// A poster level either held in memory or restored from disk and read when drawn
+export type TabThumb = ThumbLevel | PersistedThumbLevel
+
+export type ReadThumbResult =
+  | { ok: true; dataUrl: string }
+  | { ok: false; error: string }
+
 export interface SetLifecyclePayload {
   tabId: string
   lifecycle: LifecycleState
@@ -92,27 +163,348 @@ export interface PersistedTabInfo {
   lifecycle: LifecycleState
   hasScreenshot: boolean
   thumbPath: string | null
+  thumbLevels: PersistedThumbLevel[]
+  profile: string
 }
 
 export type PersistedStateResult =
   | { ok: true; tabs: PersistedTabInfo[] }
   | { ok: false; error: string }
 
+// dataUrl/width/height describe the largest level
 export type SnapshotResult =
-  | { ok: true; dataUrl: string; width: number; height: number }
+  | { ok: true; dataUrl: string; width: number; height: number; levels: ThumbLevel[] }
+  | { ok: false; error: string }
+
+export type DownloadState = 'progressing' | 'paused' | 'completed' | 'cancelled' | 'interrupted'
+
+export interface DownloadEntry {
+  id: string
+  tabId: string | null
+  url: string
+  filename: string
+  savePath: string
+  mimeType: string
+  totalBytes: number
+  receivedBytes: number
+  state: DownloadState
+  canResume: boolean
+  startedAt: number
+  endedAt?: number
+}
+
+export interface DownloadSettings {
+  directory: string
+}
+
+export type DownloadsResult =
+  | { ok: true; downloads: DownloadEntry[] }
+  | { ok: false; error: string }
+
+export type FileDataUrlResult =
+  | { ok: true; dataUrl: string; name: string }
+  | { ok: false; error: string }
+
+export type DownloadSettingsResult =
+  | { ok: true; settings: DownloadSettings }
+  | { ok: false; error: string }
+
+export interface FindInPagePayload {
+  tabId: string
+  text: string
+  forward?: boolean
+  // As in Electron: true starts a new search session; false steps to the next/previous match
+  findNext: boolean
+  matchCase?: boolean
+}
+
+export interface StopFindPayload {
+  tabId: string
+  action?: 'clearSelection' | 'keepSelection' | 'activateSelection'
+}
+
+export interface FindResult {
+  requestId: number
+  activeMatchOrdinal: number
+  matches: number
+  finalUpdate: boolean
+}
+
+export type FindInPageResult =
+  | { ok: true; requestId: number }
+  | { ok: false; error: string }
+
+export type SetZoomPayload =
+  | { tabId: string; zoomFactor: number }
+  | { tabId: string; step: 1 | -1 }
+
+export type ZoomResult =
+  | { ok: true; zoomFactor: number }
+  | { ok: false; error: string }
+
+export interface SpatialAudioSettings {
+  enabled: boolean
+  // Gain for a tab that is entirely off screen (0..1)
+  floor: number
+}
+
+export interface AppSettings {
+  spatialAudio: SpatialAudioSettings
+}
+
+export type AppSettingsPatch = { [K in keyof AppSettings]?: Partial<AppSettings[K]> }
+
+export type SettingsResult =
+  | { ok: true; settings: AppSettings }
+  | { ok: false; error: string }
+
+export interface SpatialAudioEntry {
+  tabId: string
+  gain: number
+  // -1 (left) .. 1 (right)
+  pan: number
+}
+
+export interface FrameRateEntry {
+  tabId: string
+  // Offscreen paint rate; main clamps it to 1..60
+  fps: number
+}
+
+// One tab's renderer in the task manager. Tabs that share a renderer process
+// report the same pid and the same numbers.
+export interface TabProcessMetrics {
+  tabId: string
+  pid: number
+  // Percent of one core since the previous sample
+  cpu: number
+  // Working set, in KB
+  memoryKB: number
+  frameRate: number
+}
+
+// App processes that belong to no tab (browser, GPU, utility…)
+export interface AppProcessMetrics {
+  pid: number
+  type: string
+  name: string | null
+  cpu: number
+  memoryKB: number
+}
+
+export type MetricsResult =
+  | { ok: true; tabs: TabProcessMetrics[]; processes: AppProcessMetrics[] }
+  | { ok: false; error: string }
+
+export interface RenderScaleEntry {
+  tabId: string
+  // Surface pixels per CSS layout pixel (camera zoom × devicePixelRatio)
+  scale: number
+}
+
+export type PdfPageSize = 'A3' | 'A4' | 'A5' | 'Legal' | 'Letter' | 'Tabloid'
+
+// Presets or explicit margins in inches
+export type PdfMargins =
+  | 'default'
+  | 'none'
+  | 'minimum'
+  | { top: number; bottom: number; left: number; right: number }
+
+export interface PrintToPdfPayload {
+  tabId: string
+  pageSize?: PdfPageSize
+  landscape?: boolean
+  margins?: PdfMargins
+  printBackground?: boolean
+}
+
+// A file written by the app (PDF, screenshot) that can become a file card
+export interface SavedFile {
+  name: string
+  filePath: string
+  mimeType: string
+  size: number
+  sourceUrl: string
+}
+
+export type SavedFileResult =
+  | { ok: true; file: SavedFile }
+  | { ok: false; error: string }
+
+export type FullPageCaptureResult =
+  | { ok: true; dataUrl: string; mimeType: string; width: number; height: number; url: string; title: string; capturedAt: number }
+  | { ok: false; error: string }
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask'
+
+export interface PermissionGrant {
+  profile: string
+  origin: string
+  permission: string
+  decision: Exclude<PermissionDecision, 'ask'>
+  updatedAt: number
+}
+
+export interface PermissionRequestInfo {
+  id: string
+  tabId: string
+  origin: string
+  permission: string
+  mediaTypes?: string[]
+}
+
+export type PermissionsResult =
+  | { ok: true; grants: PermissionGrant[] }
+  | { ok: false; error: string }
+
+export interface FilterListInfo {
+  name: string
+  networkRules: number
+  cosmeticRules: number
+}
+
+export interface ContentBlockingStatus {
+  enabled: boolean
+  // Hostnames where blocking is off (subdomains included)
+  allowlist: string[]
+  filterDir: string
+  lists: FilterListInfo[]
+}
+
+export type ContentBlockingResult =
+  | { ok: true; status: ContentBlockingStatus }
+  | { ok: false; error: string }
+
+export interface HistoryEntry {
+  id: string
+  url: string
+  title: string
+  visitedAt: number
+  // Shape that made the visit; may no longer exist
+  tabId: string
+  profile: string
+}
+
+export interface HistoryQuery {
+  // Every word must appear in the title or URL
+  text?: string
+  // visitedAt in [from, to), epoch ms
+  from?: number
+  to?: number
+  profile?: string
+  limit?: number
+  offset?: number
+}
+
+// One distinct URL from history, for address-bar suggestions
+export interface HistorySuggestion {
+  url: string
+  title: string
+  visitCount: number
+  lastVisitedAt: number
+  // Visit count weighted by how recent each visit was
+  frecency: number
+}
+
+export type HistoryResult =
+  | { ok: true; entries: HistoryEntry[]; total: number }
+  | { ok: false; error: string }
+
+export interface BookmarkFolder {
+  id: string
+  name: string
+  // null only for the fixed 'root' folder
+  parentId: string | null
+  createdAt: number
+}
+
+export interface Bookmark {
+  id: string
+  url: string
+  title: string
+  folderId: string
+  // Lower-case, unique
+  tags: string[]
+  createdAt: number
+  updatedAt: number
+}
+
+export interface BookmarksData {
+  folders: BookmarkFolder[]
+  bookmarks: Bookmark[]
+}
+
+export type BookmarkPatch = Partial<Pick<Bookmark, 'url' | 'title' | 'folderId' | 'tags'>>
+
+export interface BookmarkSearch {
+  // Every word must appear in the title, URL or tags
+  text?: string
+  tag?: string
+  // Includes subfolders
+  folderId?: string
+}
+
+export type BookmarksResult =
+  | { ok: true; data: BookmarksData }
+  | { ok: false; error: string }
+
+export type BookmarkResult =
+  | { ok: true; bookmark: Bookmark }
+  | { ok: false; error: string }
+
+export type BookmarkFolderResult =
+  | { ok: true; folder: BookmarkFolder }
+  | { ok: false; error: string }
+
+export interface SearchEngine {
+  id: string
+  name: string
+  // Typed before the query in the address bar ("gh foo"); '' for none
+  keyword: string
+  // Query goes where `%s` is
+  url: string
+  source: 'built-in' | 'custom' | 'discovered'
+}
+
+export type SearchEngineInput = Pick<SearchEngine, 'name' | 'keyword' | 'url'>
+
+export interface SearchEngines {
+  defaultId: string
+  engines: SearchEngine[]
+}
+
+export type SearchEnginesResult =
+  | { ok: true; engines: SearchEngines }
   | { ok: false; error: string }
 
 export type OverlayNotice =
   | { kind: 'tab-limit'; max: number }
   | { kind: 'popup-suppressed'; url: string }
   | { kind: 'external-auth'; provider: 'google'; url: string }
-  | { kind: 'tab-crashed'; tabId: string }
-  | { kind: 'nav-error'; tabId: string; code: number; description: string; url?: string }
+  | { kind: 'tab-crashed'; tabId: string; crash: TabCrashInfo }
+  // error is null once the tab starts another main-frame navigation
+  | { kind: 'nav-error'; tabId: string; error: NavError | null }
   | { kind: 'screen-share-error'; message: string }
   | { kind: 'media-denied'; which: string }
   | { kind: 'pressure'; level: 'normal' | 'elevated' | 'critical'; availableMB: number }
   | { kind: 'flags'; tabId: string; flags: Flags }
   | { kind: 'cursor'; tabId: string; cursor: string }
+  | { kind: 'profiles-changed'; profiles: BrowserProfile[] }
+  | { kind: 'download-started'; download: DownloadEntry }
+  | { kind: 'download-progress'; download: DownloadEntry }
+  | { kind: 'download-done'; download: DownloadEntry }
+  | { kind: 'find-result'; tabId: string; result: FindResult }
+  | { kind: 'zoom-changed'; tabId: string; zoomFactor: number }
+  | { kind: 'settings-changed'; settings: AppSettings }
+  | { kind: 'pdf-saved'; tabId: string; file: SavedFile }
+  | { kind: 'permission-request'; request: PermissionRequestInfo }
+  | { kind: 'permission-resolved'; tabId: string; id: string; granted: boolean }
+  | { kind: 'content-blocking-changed'; status: ContentBlockingStatus }
+  | { kind: 'history-changed' }
+  | { kind: 'bookmarks-changed'; data: BookmarksData }
+  | { kind: 'search-engines-changed'; engines: SearchEngines }
+  | { kind: 'search-engine-discovered'; engine: SearchEngine }
 
 export interface PopupAckPayload {
   openerTabId: string
@@ -120,6 +512,10 @@ export interface PopupAckPayload {
   childTabId?: string
 }
 
+// 'shared-texture' hands GPU textures to the renderer; 'software' copies the
+// offscreen paint bitmap over a MessagePort when no usable GPU is present.
+export type FrameMode = 'shared-texture' | 'software'
+
 export interface SharedTextureFrame {
   importedSharedTexture: {
     getVideoFrame(): VideoFrame
@@ -137,6 +533,7 @@ export interface OverlayAPI {
   setBounds(payload: BoundsPayload | BoundsPayload[]): Promise<void>
 
   onFrame(tabId: string, callback: (frame: SharedTextureFrame, tabId: string) => void): () => void
+  getFrameMode(): Promise<FrameMode>
   onUrlUpdate(callback: (data: { tabId: string; url?: string }) => void): () => void
   onPressure(cb: (p: { level: 'normal' | 'elevated' | 'critical'; freeMB: number; totalMB: number }) => void): () => void
 
@@ -146,6 +543,8 @@ export interface OverlayAPI {
   freeze(payload: FreezePayload): Promise<void>
   thaw(payload: ThawPayload): Promise<void>
   snapshot(request: SnapshotRequest): Promise<SnapshotResult>
+  // Whole scroll height, stitched; `snapshot` only grabs the visible surface
+  captureFullPage(payload: TabIdPayload): Promise<FullPageCaptureResult>
 
   navigate(payload: NavigatePayload): Promise<SimpleResult>
   onNotice(cb: (n: OverlayNotice) => void): () => void
@@ -153,11 +552,90 @@ export interface OverlayAPI {
   goForward(payload: TabIdPayload): Promise<SimpleResult>
   reload(payload: TabIdPayload): Promise<SimpleResult>
   getNavigationState(payload: TabIdPayload): Promise<NavigationStateResult>
+  findInPage(payload: FindInPagePayload): Promise<FindInPageResult>
+  stopFindInPage(payload: StopFindPayload): Promise<SimpleResult>
+  // Page zoom (text reflows); independent of the canvas camera
+  setZoom(payload: SetZoomPayload): Promise<ZoomResult>
+  getZoom(payload: TabIdPayload): Promise<ZoomResult>
+  setMuted(payload: { tabId: string; muted: boolean }): Promise<SimpleResult>
+  // 0..1, applied on top of the page's own media volume
+  setVolume(payload: { tabId: string; volume: number }): Promise<SimpleResult>
+  muteOtherTabs(payload: { tabId: string | null }): Promise<{ ok: true; tabIds: string[] }>
+  // Saves under userData; the renderer places a file card on `pdf-saved`
+  printToPdf(payload: PrintToPdfPayload): Promise<SavedFileResult>
+
+  // Spatial gain/pan on top of the tab's own volume; null resets every tab
+  setSpatialAudio(entries: SpatialAudioEntry[] | null): Promise<SimpleResult>
+
+  // Per-tab offscreen paint rate, driven by the renderer's frame-rate governor
+  setFrameRate(entries: FrameRateEntry[]): Promise<SimpleResult>
+  // Per-tab offscreen surface resolution; the page zoom compensates so layout size is unchanged
+  setRenderScale(entries: RenderScaleEntry[]): Promise<SimpleResult>
+
+  // Task manager: CPU/memory per tab renderer, and ending a tab's renderer process
+  getMetrics(): Promise<MetricsResult>
+  endTabProcess(payload: { tabId: string }): Promise<SimpleResult>
+
+  getSettings(): Promise<SettingsResult>
+  updateSettings(patch: AppSettingsPatch): Promise<SettingsResult>
   onNavFinished(cb: (n: { tabId: string; at: number }) => void): () => void
 
   setLifecycle(payload: SetLifecyclePayload): Promise<SimpleResult>
   getPersistedState(): Promise<PersistedStateResult>
-  saveThumb(payload: { tabId: string; url: string; dataUrlWebp: string }): Promise<{ ok: true; thumbPath: string } | { ok: false }>
+  saveThumb(payload: { tabId: string; url: string; levels: ThumbLevel[] }): Promise<{ ok: true; thumbPath: string } | { ok: false }>
+  readThumb(payload: { path: string }): Promise<ReadThumbResult>
+
+  listProfiles(): Promise<ProfilesResult>
+  createProfile(payload: { name: string; color?: string }): Promise<CreateProfileResult>
+  removeProfile(payload: { profileId: string }): Promise<SimpleResult>
+
+  listDownloads(): Promise<DownloadsResult>
+  pauseDownload(payload: { id: string }): Promise<SimpleResult>
+  resumeDownload(payload: { id: string }): Promise<SimpleResult>
+  cancelDownload(payload: { id: string }): Promise<SimpleResult>
+  openFile(payload: { filePath: string; reveal?: boolean }): Promise<SimpleResult>
+  readFileDataUrl(payload: { filePath: string; mimeType: string }): Promise<FileDataUrlResult>
+  clearDownloads(): Promise<SimpleResult>
+  getDownloadSettings(): Promise<DownloadSettingsResult>
+  chooseDownloadDirectory(): Promise<DownloadSettingsResult>
+
+  respondPermission(payload: { id: string; granted: boolean; remember?: boolean }): Promise<SimpleResult>
+  listPermissions(): Promise<PermissionsResult>
+  setPermission(payload: { profile: string; origin: string; permission: string; decision: PermissionDecision }): Promise<SimpleResult>
+  clearPermissions(payload?: { profile?: string; origin?: string }): Promise<SimpleResult>
+
+  getContentBlocking(): Promise<ContentBlockingResult>
+  setContentBlocking(payload: { enabled: boolean }): Promise<ContentBlockingResult>
+  setSiteAllowed(payload: { host: string; allowed: boolean }): Promise<ContentBlockingResult>
+  // Flips the allowlist entry for the tab's site and reloads the tab
+  toggleShield(payload: TabIdPayload): Promise<{ ok: true; shield: ShieldState } | { ok: false; error: string }>
+  reloadFilterLists(): Promise<ContentBlockingResult>
+  openFilterFolder(): Promise<SimpleResult>
+
+  queryHistory(query?: HistoryQuery): Promise<HistoryResult>
+  // Distinct URLs matching address-bar text, best first
+  suggestHistory(payload: { text: string; limit?: number }): Promise<{ ok: true; suggestions: HistorySuggestion[] } | { ok: false; error: string }>
+  deleteHistory(payload: { ids: string[] }): Promise<SimpleResult>
+  clearHistory(payload?: { from?: number; to?: number }): Promise<SimpleResult>
+
+  listBookmarks(): Promise<BookmarksResult>
+  searchBookmarks(query?: BookmarkSearch): Promise<{ ok: true; bookmarks: Bookmark[] } | { ok: false; error: string }>
+  addBookmark(payload: { url: string; title?: string; folderId?: string | null; tags?: string[] }): Promise<BookmarkResult>
+  updateBookmark(payload: { id: string; patch: BookmarkPatch }): Promise<BookmarkResult>
+  removeBookmarks(payload: { ids: string[] }): Promise<SimpleResult>
+  createBookmarkFolder(payload: { name: string; parentId?: string | null }): Promise<BookmarkFolderResult>
+  updateBookmarkFolder(payload: { id: string; name?: string; parentId?: string }): Promise<BookmarkFolderResult>
+  // Deletes the folder's subfolders and bookmarks too
+  removeBookmarkFolder(payload: { id: string }): Promise<SimpleResult>
+  // Netscape bookmark HTML, via open/save dialogs
+  importBookmarks(): Promise<{ ok: true; folder: BookmarkFolder; count: number } | { ok: false; error: string }>
+  exportBookmarks(): Promise<{ ok: true; filePath: string } | { ok: false; error: string }>
+
+  listSearchEngines(): Promise<SearchEnginesResult>
+  addSearchEngine(payload: SearchEngineInput): Promise<SearchEnginesResult>
+  updateSearchEngine(payload: { id: string; patch: Partial<SearchEngineInput> }): Promise<SearchEnginesResult>
+  removeSearchEngine(payload: { id: string }): Promise<SearchEnginesResult>
+  setDefaultSearchEngine(payload: { id: string }): Promise<SearchEnginesResult>
 
   // Kept for API compat but is now a no-op
   decodeGPUFrame(handle: Uint8Array): Promise<ImageBitmap | null>